@@ -0,0 +1,63 @@
+import type { UpstreamUser } from "./identity-provider";
+import { readCookie, signValue, verifySignedValue } from "./workers-oauth-utils";
+
+/**
+ * Browser session for the account pages.
+ *
+ * Signing in to `/account/...` goes through the identity provider like an MCP
+ * authorization does; `/callback` then sets a short-lived cookie, signed with
+ * COOKIE_ENCRYPTION_KEY (previous keys are still accepted), naming the user. Forms on those pages carry the
+ * session's `csrf` value, which a cross-site page cannot read.
+ */
+
+const SESSION_COOKIE = "mcp-account-session";
+
+// How long an account session lasts before the user signs in again
+const SESSION_TTL_SECONDS = 60 * 60; // 1 hour
+
+export interface AccountSession {
+  /** The user's `Props.sub` */
+  sub: string;
+  name: string;
+  /** Anti-CSRF token for the session's forms */
+  csrf: string;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+/**
+ * Starts an account session for a user who just signed in.
+ * @param secrets - The cookie secrets, newest first; the newest signs.
+ * @param user - The signed-in user.
+ * @returns Headers to merge into the response.
+ */
+export async function createAccountSession(secrets: string[], user: UpstreamUser): Promise<Record<string, string>> {
+  const session: AccountSession = {
+    sub: user.sub,
+    name: user.name,
+    csrf: crypto.randomUUID(),
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const value = await signValue(session, secrets);
+  return { "Set-Cookie": `${SESSION_COOKIE}=${value}; HttpOnly; Secure; Path=/account; SameSite=Lax; Max-Age=${SESSION_TTL_SECONDS}` };
+}
+
+/**
+ * The request's account session, if it has a valid, unexpired one.
+ * @param request - The incoming request.
+ * @param secrets - The cookie secrets, newest first; any of them is accepted.
+ */
+export async function readAccountSession(request: Request, secrets: string[]): Promise<AccountSession | null> {
+  const value = readCookie(request, SESSION_COOKIE);
+  if (!value) return null;
+  const session = await verifySignedValue<AccountSession>(value, secrets);
+  if (!session?.sub || session.expiresAt <= Math.floor(Date.now() / 1000)) return null;
+  return session;
+}
+
+/**
+ * Header that ends the account session, e.g. on logout.
+ */
+export function clearAccountSession(): Record<string, string> {
+  return { "Set-Cookie": `${SESSION_COOKIE}=; HttpOnly; Secure; Path=/account; SameSite=Lax; Max-Age=0` };
+}
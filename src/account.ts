@@ -0,0 +1,217 @@
+import type { ClientInfo, GrantSummary, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { Hono } from "hono";
+import { readAccountSession, type AccountSession } from "./account-session";
+import { forgetGrantUse, grantLastUsed } from "./grant-activity";
+import { createIdentityProvider } from "./identity-provider";
+import { messagesFor, negotiateLocale, type DialogMessages, type Locale } from "./i18n";
+import { log } from "./logger";
+import { revokeUpstreamIfUnused } from "./revocation";
+import { isScope } from "./scopes";
+import { DIALOG_STYLES, themeFromEnv, themeStyles, type Theme } from "./theme";
+import { createUpstreamState } from "./upstream-state";
+import { approvalCookieOptions, cookieSecrets } from "./utils";
+import { dialogContentSecurityPolicy, revokeClientApproval, sanitizeHtml } from "./workers-oauth-utils";
+
+/**
+ * Connected apps: `/account/connections` lists every MCP client the signed-in
+ * user has authorized, with when they authorized it, when it last connected and
+ * which scopes it holds. Revoking a client deletes its grants (and every token
+ * issued under them) and drops it from the approved-clients cookie, so it has to
+ * ask again next time. Visitors without an account session are sent through the
+ * identity provider first.
+ */
+
+type Bindings = Env & { OAUTH_PROVIDER: OAuthHelpers };
+
+const app = new Hono<{ Bindings: Bindings }>();
+
+export const ACCOUNT_CONNECTIONS_PATH = "/account/connections";
+
+// What the page needs beyond the approval dialog's stylesheet
+const ACCOUNT_STYLES = `
+  .actions { margin-top: 1rem; }
+  .detail-value ul { margin: 0; padding-left: 1.2rem; }
+  .button-danger { background-color: transparent; border: 1px solid var(--error-color); color: var(--error-color); }
+`;
+
+/** One authorized client, with all of the user's grants to it */
+interface Connection {
+  clientId: string;
+  client: ClientInfo | null;
+  grants: GrantSummary[];
+  scopes: string[];
+  /** Unix seconds of the earliest grant */
+  grantedAt: number;
+  /** Unix seconds, or null if never seen in use */
+  lastUsedAt: number | null;
+}
+
+app.get(ACCOUNT_CONNECTIONS_PATH, async (c) => {
+  const session = await readAccountSession(c.req.raw, cookieSecrets(c.env));
+  if (!session) return signIn(c.env, c.req.url);
+
+  const connections = await listConnections(c.env, session.sub);
+  return renderConnectionsPage(c.req.raw, session, connections, themeFromEnv(c.env));
+});
+
+/**
+ * Revoke every grant the user gave one client.
+ */
+app.post(`${ACCOUNT_CONNECTIONS_PATH}/revoke`, async (c) => {
+  const session = await readAccountSession(c.req.raw, cookieSecrets(c.env));
+  if (!session) return signIn(c.env, new URL(ACCOUNT_CONNECTIONS_PATH, c.req.url).href);
+
+  const form = await c.req.parseBody();
+  if (form.csrf !== session.csrf) {
+    log.warn("Rejected account form", { sub: session.sub, reason: "csrf" });
+    return c.text("Invalid request", 403);
+  }
+  const clientId = typeof form.client_id === "string" ? form.client_id : "";
+
+  const grants = (await allGrants(c.env.OAUTH_PROVIDER, session.sub)).filter((g) => g.clientId === clientId);
+  for (const grant of grants) {
+    await c.env.OAUTH_PROVIDER.revokeGrant(grant.id, session.sub);
+    await forgetGrantUse(c.env.OAUTH_KV, session.sub, grant.id);
+  }
+  log.info("Client access revoked", { sub: session.sub, clientId, grants: grants.length });
+  await revokeUpstreamIfUnused(c.env, session.sub);
+
+  const cookie = await revokeClientApproval(c.req.raw, clientId, approvalCookieOptions(c.env));
+  return new Response(null, { status: 303, headers: { ...cookie, Location: ACCOUNT_CONNECTIONS_PATH } });
+});
+
+// --- Helper Functions ---
+
+/**
+ * Sends the browser to the identity provider; `/callback` starts the account session and returns here.
+ */
+async function signIn(env: Env, requestUrl: string): Promise<Response> {
+  const { state, codeChallenge, headers } = await createUpstreamState(env.OAUTH_KV, { returnTo: new URL(requestUrl).pathname });
+  const location = await createIdentityProvider(env).authorizeUrl({
+    redirectUri: new URL("/callback", requestUrl).href,
+    state,
+    codeChallenge,
+  });
+  return new Response(null, { status: 302, headers: { ...headers, Location: location } });
+}
+
+async function allGrants(helpers: OAuthHelpers, sub: string): Promise<GrantSummary[]> {
+  const grants: GrantSummary[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await helpers.listUserGrants(sub, { cursor });
+    grants.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+  return grants;
+}
+
+async function listConnections(env: Bindings, sub: string): Promise<Connection[]> {
+  const byClient = new Map<string, GrantSummary[]>();
+  for (const grant of await allGrants(env.OAUTH_PROVIDER, sub)) {
+    byClient.set(grant.clientId, [...(byClient.get(grant.clientId) ?? []), grant]);
+  }
+
+  const connections = await Promise.all(
+    [...byClient].map(async ([clientId, grants]): Promise<Connection> => {
+      const lastUsed = await Promise.all(grants.map((g) => grantLastUsed(env.OAUTH_KV, sub, g.id)));
+      const seen = lastUsed.filter((t): t is number => t !== null);
+      return {
+        clientId,
+        client: await env.OAUTH_PROVIDER.lookupClient(clientId),
+        grants,
+        scopes: [...new Set(grants.flatMap((g) => g.scope))],
+        grantedAt: Math.min(...grants.map((g) => g.createdAt)),
+        lastUsedAt: seen.length ? Math.max(...seen) : null,
+      };
+    }),
+  );
+  return connections.sort((a, b) => (b.lastUsedAt ?? b.grantedAt) - (a.lastUsedAt ?? a.grantedAt));
+}
+
+function formatTime(seconds: number | null, locale: Locale, t: DialogMessages): string {
+  if (seconds === null) return t.account.never;
+  return new Date(seconds * 1000).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short", timeZone: "UTC" }) + " UTC";
+}
+
+function renderConnection(connection: Connection, csrf: string, locale: Locale, t: DialogMessages): string {
+  const { client } = connection;
+  const name = client?.clientName ? sanitizeHtml(client.clientName) : t.unknownClient;
+  const clientUri = client?.clientUri ? sanitizeHtml(client.clientUri) : "";
+  const scopes = connection.scopes
+    .map((s) => `<li>${sanitizeHtml(isScope(s) ? t.scopes[s] : s)} <code>${sanitizeHtml(s)}</code></li>`)
+    .join("");
+
+  return `
+    <div class="client-info">
+      <p class="client-name">${name}</p>
+      ${clientUri ? `<div class="client-detail"><div class="detail-label">${t.labels.website}</div><div class="detail-value small"><a href="${clientUri}" target="_blank" rel="noopener noreferrer">${clientUri}</a></div></div>` : ""}
+      <div class="client-detail"><div class="detail-label">${t.account.labels.authorized}</div><div class="detail-value small">${formatTime(connection.grantedAt, locale, t)}</div></div>
+      <div class="client-detail"><div class="detail-label">${t.account.labels.lastUsed}</div><div class="detail-value small">${formatTime(connection.lastUsedAt, locale, t)}</div></div>
+      <div class="client-detail"><div class="detail-label">${t.account.labels.access}</div><div class="detail-value small"><ul>${scopes || `<li>${t.account.noScopes}</li>`}</ul></div></div>
+      <form method="post" action="${ACCOUNT_CONNECTIONS_PATH}/revoke" class="actions">
+        <input type="hidden" name="csrf" value="${sanitizeHtml(csrf)}">
+        <input type="hidden" name="client_id" value="${sanitizeHtml(connection.clientId)}">
+        <button type="submit" class="button button-danger">${t.account.revoke}</button>
+      </form>
+    </div>
+  `;
+}
+
+/**
+ * The connected-apps page, styled and translated like the approval dialog and sent with the same security headers.
+ */
+function renderConnectionsPage(request: Request, session: AccountSession, connections: Connection[], theme: Theme): Response {
+  const locale = negotiateLocale(request.headers.get("Accept-Language"));
+  const t = messagesFor(locale);
+  const styleNonce = crypto.randomUUID();
+  const logoUrl = theme.logo ? sanitizeHtml(theme.logo) : "";
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="${locale}">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t.account.title}</title>
+        <style nonce="${styleNonce}">
+          ${themeStyles(theme)}
+          ${DIALOG_STYLES}
+          ${ACCOUNT_STYLES}
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="precard">
+            <div class="header">
+              ${logoUrl ? `<img src="${logoUrl}" alt="" class="logo">` : ""}
+              <h1 class="title"><strong>${t.account.title}</strong></h1>
+            </div>
+          </div>
+          <div class="card">
+            <p>${t.account.signedInAs(sanitizeHtml(session.name || session.sub))} <a href="/logout">${t.account.signOut}</a></p>
+            ${
+              connections.length
+                ? connections.map((connection) => renderConnection(connection, session.csrf, locale, t)).join("")
+                : `<p>${t.account.noConnections}</p>`
+            }
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return new Response(htmlContent, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Language": locale,
+      "Content-Security-Policy": dialogContentSecurityPolicy(styleNonce, theme.logo, []),
+      "Cache-Control": "no-store",
+      "Referrer-Policy": "no-referrer",
+      "X-Content-Type-Options": "nosniff",
+      Vary: "Accept-Language",
+    },
+  });
+}
+
+export { app as AccountHandler };
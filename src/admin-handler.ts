@@ -0,0 +1,188 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import {
+  ApiKeyOptions,
+  ApiKeyRecord,
+  getApiKeyRecord,
+  hashApiKey,
+  IssuedApiKey,
+  isApiKeyActive,
+  issueApiKey,
+  listApiKeys,
+  maskApiKey,
+  putApiKeyRecord,
+  registerApiKey,
+} from "./api-keys";
+import { RATE_LIMIT_TIERS, RateLimitTier } from "./rate-limiter";
+import { ALL_SCOPES, isScope } from "./scopes";
+import { matchesHash, sha256Hex } from "./utils";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// How long a rotated-out key keeps working unless the caller asks otherwise
+const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+const CreateKeySchema = z.object({
+  owner: z.string().min(1),
+  scopes: z.array(z.string().refine(isScope, { message: `Unknown scope, expected one of: ${ALL_SCOPES.join(", ")}` })).default([...ALL_SCOPES]),
+  tier: z.enum(Object.keys(RATE_LIMIT_TIERS) as [RateLimitTier, ...RateLimitTier[]]).optional(),
+  expiresInSeconds: z.number().int().positive().optional(),
+});
+
+// A key the tasks backend issued; anything shorter is unlikely to be one
+const ExistingKeySchema = z.string().min(16);
+
+const ImportKeySchema = CreateKeySchema.extend({
+  apiKey: ExistingKeySchema,
+});
+
+const RotateKeySchema = z.object({
+  graceSeconds: z.number().int().min(0).default(DEFAULT_ROTATION_GRACE_SECONDS),
+  /** The replacement, if the tasks backend issued it; otherwise one is generated */
+  apiKey: ExistingKeySchema.optional(),
+});
+
+/**
+ * Shape returned for a key in admin responses; never includes the plaintext.
+ */
+function describeKey(hash: string, record: ApiKeyRecord) {
+  return {
+    id: hash,
+    key: maskApiKey(record),
+    owner: record.owner,
+    scopes: record.scopes,
+    tier: record.tier ?? null,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt ?? null,
+    revokedAt: record.revokedAt ?? null,
+    rotatedTo: record.rotatedTo ?? null,
+    active: isApiKeyActive(record),
+  };
+}
+
+/**
+ * Constant-time comparison of the presented admin token against ADMIN_API_TOKEN.
+ */
+async function isAdminToken(presented: string | null, expected: string | undefined): Promise<boolean> {
+  if (!presented || !expected) return false;
+  return matchesHash(presented, await sha256Hex(expected));
+}
+
+/**
+ * Admin authentication - every route requires `Authorization: Bearer <ADMIN_API_TOKEN>`
+ */
+app.use("/admin/*", async (c, next) => {
+  const auth = c.req.header("Authorization");
+  const token = auth?.startsWith("Bearer ") ? auth.slice(7) : null;
+  if (!(await isAdminToken(token, c.env.ADMIN_API_TOKEN))) {
+    return c.json({ error: "unauthorized" }, 401);
+  }
+  await next();
+});
+
+/**
+ * Issue a new key. The plaintext key is only ever returned by this call.
+ */
+app.post("/admin/keys", async (c) => {
+  const parsed = CreateKeySchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: "invalid_request", issues: parsed.error.issues }, 400);
+  }
+
+  const { owner, scopes, tier, expiresInSeconds } = parsed.data;
+  const expiresAt = expiresInSeconds ? Math.floor(Date.now() / 1000) + expiresInSeconds : undefined;
+  const issued = await issueApiKey(c.env.github_tokens, { owner, scopes, tier, expiresAt });
+
+  return c.json({ ...describeKey(issued.hash, issued.record), apiKey: issued.apiKey }, 201);
+});
+
+/**
+ * Register a key the tasks backend already issued, so MCP clients can use it here
+ * and tools can forward it upstream. The key itself is never returned.
+ */
+app.post("/admin/keys/import", async (c) => {
+  const parsed = ImportKeySchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: "invalid_request", issues: parsed.error.issues }, 400);
+  }
+
+  const { apiKey, owner, scopes, tier, expiresInSeconds } = parsed.data;
+  if (await getApiKeyRecord(c.env.github_tokens, await hashApiKey(apiKey))) return c.json({ error: "key_exists" }, 409);
+
+  const expiresAt = expiresInSeconds ? Math.floor(Date.now() / 1000) + expiresInSeconds : undefined;
+  const imported = await registerApiKey(c.env.github_tokens, apiKey, { owner, scopes, tier, expiresAt });
+
+  return c.json(describeKey(imported.hash, imported.record), 201);
+});
+
+/**
+ * List keys (masked), one KV page at a time.
+ */
+app.get("/admin/keys", async (c) => {
+  const { keys, cursor } = await listApiKeys(c.env.github_tokens, c.req.query("cursor"));
+  return c.json({ keys: keys.map(({ hash, record }) => describeKey(hash, record)), cursor: cursor ?? null });
+});
+
+/**
+ * Show a single key.
+ */
+app.get("/admin/keys/:id", async (c) => {
+  const id = c.req.param("id");
+  const record = await getApiKeyRecord(c.env.github_tokens, id);
+  if (!record) return c.json({ error: "not_found" }, 404);
+  return c.json(describeKey(id, record));
+});
+
+/**
+ * Rotate a key: issue (or import) a replacement with the same owner, scopes, tier and expiry,
+ * and keep the old key working for a grace window so clients can switch over.
+ */
+app.post("/admin/keys/:id/rotate", async (c) => {
+  const id = c.req.param("id");
+  const parsed = RotateKeySchema.safeParse((await c.req.json().catch(() => null)) ?? {});
+  if (!parsed.success) {
+    return c.json({ error: "invalid_request", issues: parsed.error.issues }, 400);
+  }
+
+  const record = await getApiKeyRecord(c.env.github_tokens, id);
+  if (!record) return c.json({ error: "not_found" }, 404);
+  if (!isApiKeyActive(record)) return c.json({ error: "key_inactive" }, 409);
+
+  const { apiKey } = parsed.data;
+  if (apiKey && (await getApiKeyRecord(c.env.github_tokens, await hashApiKey(apiKey)))) return c.json({ error: "key_exists" }, 409);
+
+  const options: ApiKeyOptions = { owner: record.owner, scopes: record.scopes, tier: record.tier, expiresAt: record.expiresAt };
+  const issued: IssuedApiKey = apiKey
+    ? await registerApiKey(c.env.github_tokens, apiKey, options)
+    : await issueApiKey(c.env.github_tokens, options);
+
+  const graceEndsAt = Math.floor(Date.now() / 1000) + parsed.data.graceSeconds;
+  const retired: ApiKeyRecord = {
+    ...record,
+    expiresAt: record.expiresAt !== undefined ? Math.min(record.expiresAt, graceEndsAt) : graceEndsAt,
+    rotatedTo: issued.hash,
+  };
+  await putApiKeyRecord(c.env.github_tokens, id, retired);
+
+  // An imported replacement was never secret to the caller, so it is not echoed back
+  return c.json(
+    { ...describeKey(issued.hash, issued.record), apiKey: apiKey ? undefined : issued.apiKey, previous: describeKey(id, retired) },
+    201,
+  );
+});
+
+/**
+ * Revoke a key immediately. The entry is kept (with `revokedAt`) for auditing.
+ */
+app.delete("/admin/keys/:id", async (c) => {
+  const id = c.req.param("id");
+  const record = await getApiKeyRecord(c.env.github_tokens, id);
+  if (!record) return c.json({ error: "not_found" }, 404);
+
+  const revoked: ApiKeyRecord = { ...record, revokedAt: record.revokedAt ?? Math.floor(Date.now() / 1000) };
+  await putApiKeyRecord(c.env.github_tokens, id, revoked);
+
+  return c.json(describeKey(id, revoked));
+});
+
+export { app as AdminHandler };
@@ -0,0 +1,182 @@
+/**
+ * API key registry.
+ *
+ * Keys are never stored in plaintext: each issued key is recorded in the
+ * `github_tokens` KV namespace under `apikey:<sha256(key)>` together with its
+ * owner label, scopes and expiry. A presented key is valid only if its hash is
+ * registered, it has not been revoked and it has not expired.
+ *
+ * Tools forward the key itself to the tasks backend as `x-api-key`, so a key
+ * only reaches the backend if the backend accepts it too. Keys the backend
+ * already issued are registered with `registerApiKey`; generated ones have to
+ * be added to the backend as well.
+ */
+
+import type { RateLimitTier } from "./rate-limiter";
+import { sha256Hex } from "./utils";
+
+const KEY_PREFIX = "apikey:";
+
+/**
+ * Registry entry for an issued API key.
+ */
+export interface ApiKeyRecord {
+  /** Human-readable label for who the key was issued to */
+  owner: string;
+  /** First 8 characters of the key, kept so listings can show a masked key */
+  prefix?: string;
+  /** Scopes granted to the key, e.g. `todos:read` */
+  scopes: string[];
+  /** Rate limit tier; keys without one get the default tier */
+  tier?: RateLimitTier;
+  /** Unix timestamp (seconds) when the key was issued */
+  createdAt: number;
+  /** Unix timestamp (seconds) after which the key stops working, if any */
+  expiresAt?: number;
+  /** Unix timestamp (seconds) when the key was revoked, if it was */
+  revokedAt?: number;
+  /** Hash of the key that replaced this one, set when the key is rotated */
+  rotatedTo?: string;
+}
+
+/**
+ * A presented key that matched an active registry entry.
+ */
+export interface VerifiedApiKey {
+  /** Hex SHA-256 of the key, used as its registry id */
+  hash: string;
+  record: ApiKeyRecord;
+}
+
+/**
+ * A newly issued key. The plaintext is only available here, at issue time.
+ */
+export interface IssuedApiKey extends VerifiedApiKey {
+  apiKey: string;
+}
+
+/**
+ * Hashes an API key for storage and lookup.
+ * @param apiKey - The plaintext key.
+ * @returns The hex-encoded SHA-256 digest.
+ */
+export async function hashApiKey(apiKey: string): Promise<string> {
+  return sha256Hex(apiKey);
+}
+
+/**
+ * Checks whether a registry entry is currently usable.
+ * @param record - The registry entry.
+ * @param now - Current Unix timestamp in seconds.
+ */
+export function isApiKeyActive(record: ApiKeyRecord, now: number = Math.floor(Date.now() / 1000)): boolean {
+  if (record.revokedAt !== undefined && record.revokedAt <= now) return false;
+  if (record.expiresAt !== undefined && record.expiresAt <= now) return false;
+  return true;
+}
+
+/**
+ * Looks up a registry entry by key hash.
+ * @param kv - The KV namespace holding the registry.
+ * @param hash - The key's hex SHA-256.
+ */
+export async function getApiKeyRecord(kv: KVNamespace, hash: string): Promise<ApiKeyRecord | null> {
+  return kv.get<ApiKeyRecord>(`${KEY_PREFIX}${hash}`, "json");
+}
+
+/**
+ * Stores (or replaces) a registry entry.
+ * @param kv - The KV namespace holding the registry.
+ * @param hash - The key's hex SHA-256.
+ * @param record - The entry to store.
+ */
+export async function putApiKeyRecord(kv: KVNamespace, hash: string, record: ApiKeyRecord): Promise<void> {
+  await kv.put(`${KEY_PREFIX}${hash}`, JSON.stringify(record));
+}
+
+/**
+ * Verifies a presented API key against the registry.
+ * @param kv - The KV namespace holding the registry.
+ * @param apiKey - The plaintext key from the request.
+ * @returns The matching active entry, or null for unknown, revoked or expired keys.
+ */
+export async function verifyApiKey(kv: KVNamespace, apiKey: string): Promise<VerifiedApiKey | null> {
+  if (!apiKey) return null;
+  const hash = await hashApiKey(apiKey);
+  const record = await getApiKeyRecord(kv, hash);
+  if (!record || !isApiKeyActive(record)) return null;
+  return { hash, record };
+}
+
+/**
+ * Owner label, scopes, rate limit tier and optional expiry of a key being added to the registry.
+ */
+export interface ApiKeyOptions {
+  owner: string;
+  scopes: string[];
+  tier?: RateLimitTier;
+  expiresAt?: number;
+}
+
+/**
+ * Generates a new key and registers its hash.
+ * @param kv - The KV namespace holding the registry.
+ * @param options - Owner label, scopes, rate limit tier and optional expiry of the new key.
+ * @returns The plaintext key (shown once) and its registry entry.
+ */
+export async function issueApiKey(kv: KVNamespace, options: ApiKeyOptions): Promise<IssuedApiKey> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const apiKey = `mcp_${Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")}`;
+  return registerApiKey(kv, apiKey, options);
+}
+
+/**
+ * Registers the hash of an existing key, e.g. one the tasks backend issued.
+ * @param kv - The KV namespace holding the registry.
+ * @param apiKey - The plaintext key; only its hash and prefix are stored.
+ * @param options - Owner label, scopes, rate limit tier and optional expiry of the key.
+ * @returns The key and its registry entry.
+ */
+export async function registerApiKey(kv: KVNamespace, apiKey: string, options: ApiKeyOptions): Promise<IssuedApiKey> {
+  const hash = await hashApiKey(apiKey);
+  const record: ApiKeyRecord = {
+    owner: options.owner,
+    prefix: apiKey.slice(0, 8),
+    scopes: options.scopes,
+    tier: options.tier,
+    createdAt: Math.floor(Date.now() / 1000),
+    expiresAt: options.expiresAt,
+  };
+  await putApiKeyRecord(kv, hash, record);
+  return { apiKey, hash, record };
+}
+
+/**
+ * Lists registry entries, one KV page at a time.
+ * @param kv - The KV namespace holding the registry.
+ * @param cursor - Cursor from a previous page, if any.
+ */
+export async function listApiKeys(kv: KVNamespace, cursor?: string): Promise<{ keys: VerifiedApiKey[]; cursor?: string }> {
+  const page = await kv.list({ prefix: KEY_PREFIX, cursor });
+  const keys = await Promise.all(
+    page.keys.map(async ({ name }) => {
+      const hash = name.substring(KEY_PREFIX.length);
+      const record = await getApiKeyRecord(kv, hash);
+      return record ? { hash, record } : null;
+    }),
+  );
+  return {
+    keys: keys.filter((k): k is VerifiedApiKey => k !== null),
+    cursor: page.list_complete ? undefined : page.cursor,
+  };
+}
+
+/**
+ * Masks a key for display, the same way `diagnose_api_key` does.
+ * @param record - The registry entry.
+ */
+export function maskApiKey(record: ApiKeyRecord): string {
+  return record.prefix ? `${record.prefix}…` : "…";
+}
@@ -0,0 +1,240 @@
+import type { ClientInfo, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import { z } from "zod";
+import { log } from "./logger";
+import { isAllowedRedirectScheme } from "./redirect-uris";
+import { matchesHash, sha256Hex } from "./utils";
+
+/**
+ * OAuth dynamic client registration (RFC 7591) and client management (RFC 7592).
+ *
+ * Clients are stored through the OAuth provider's helpers, so `lookupClient`
+ * and the provider's own endpoints find them. Each registration also issues a registration access token; only its
+ * SHA-256 is kept, under `client_registration:<id>`. Presenting it as a Bearer
+ * token to `/register/<id>` lets the client read, update or delete itself.
+ */
+
+const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>();
+
+const REGISTRATION_PREFIX = "client_registration:";
+
+export const SUPPORTED_GRANT_TYPES = ["authorization_code", "refresh_token"] as const;
+export const SUPPORTED_RESPONSE_TYPES = ["code"] as const;
+export const SUPPORTED_AUTH_METHODS = ["client_secret_basic", "client_secret_post", "none"] as const;
+
+const RedirectUriSchema = z.string().superRefine((value, ctx) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    ctx.addIssue({ code: "custom", message: `Not an absolute URI: ${value}` });
+    return;
+  }
+  if (url.hash) ctx.addIssue({ code: "custom", message: `Redirect URIs must not contain a fragment: ${value}` });
+  if (!isAllowedRedirectScheme(url)) {
+    const message =
+      url.protocol === "http:"
+        ? `Plain http redirect URIs are only allowed for loopback hosts: ${value}`
+        : `Unsupported redirect URI scheme, use https or a reverse-domain scheme like com.example.app: ${value}`;
+    ctx.addIssue({ code: "custom", message });
+  }
+});
+
+const OptionalUrl = z.string().url().optional();
+
+/**
+ * Client metadata we understand; anything else in the request is ignored, as RFC 7591 §2 asks.
+ */
+const ClientMetadataSchema = z
+  .object({
+    redirect_uris: z.array(RedirectUriSchema).min(1, "At least one redirect URI is required"),
+    grant_types: z.array(z.enum(SUPPORTED_GRANT_TYPES)).default([...SUPPORTED_GRANT_TYPES]),
+    response_types: z.array(z.enum(SUPPORTED_RESPONSE_TYPES)).default([...SUPPORTED_RESPONSE_TYPES]),
+    token_endpoint_auth_method: z.enum(SUPPORTED_AUTH_METHODS).default("client_secret_basic"),
+    client_name: z.string().max(200).optional(),
+    client_uri: OptionalUrl,
+    logo_uri: OptionalUrl,
+    policy_uri: OptionalUrl,
+    tos_uri: OptionalUrl,
+    jwks_uri: OptionalUrl,
+    contacts: z.array(z.string()).optional(),
+  })
+  .refine((m) => !m.response_types.includes("code") || m.grant_types.includes("authorization_code"), {
+    message: 'response_types "code" requires the "authorization_code" grant type',
+    path: ["grant_types"],
+  });
+
+type ClientMetadata = z.infer<typeof ClientMetadataSchema>;
+
+interface RegistrationRecord {
+  /** Hex SHA-256 of the registration access token */
+  tokenHash: string;
+}
+
+app.use("/register", cors({ origin: "*", allowMethods: ["POST", "OPTIONS"], allowHeaders: ["Content-Type"] }));
+app.use(
+  "/register/*",
+  cors({ origin: "*", allowMethods: ["GET", "PUT", "DELETE", "OPTIONS"], allowHeaders: ["Authorization", "Content-Type"] }),
+);
+
+/**
+ * Register a client (RFC 7591 §3).
+ */
+app.post("/register", async (c) => {
+  const parsed = parseMetadata(await c.req.json().catch(() => null));
+  if ("error" in parsed) return c.json(parsed.error, 400);
+  const metadata = parsed.data;
+
+  const client = await c.env.OAUTH_PROVIDER.createClient(toClientInfo(metadata));
+  const registrationAccessToken = randomToken();
+  await putRegistration(c.env.OAUTH_KV, client.clientId, { tokenHash: await sha256Hex(registrationAccessToken) });
+
+  log.info("Client registered", { clientId: client.clientId, clientName: client.clientName, authMethod: client.tokenEndpointAuthMethod });
+  return c.json(
+    {
+      ...describeClient(client, c.req.url),
+      // createClient hands back the plaintext secret once; only its hash is stored
+      ...(client.clientSecret ? { client_secret: client.clientSecret, client_secret_expires_at: 0 } : {}),
+      registration_access_token: registrationAccessToken,
+    },
+    201,
+    { "Cache-Control": "no-store" },
+  );
+});
+
+/**
+ * Read a client's current registration (RFC 7592 §2.1).
+ */
+app.get("/register/:clientId", async (c) => {
+  const client = await authorizedClient(c.env, c.req.param("clientId"), c.req.header("Authorization"));
+  if (!client) return invalidToken();
+  return c.json(describeClient(client, c.req.url), 200, { "Cache-Control": "no-store" });
+});
+
+/**
+ * Replace a client's metadata (RFC 7592 §2.2). The client id, secret and
+ * registration access token stay the same.
+ */
+app.put("/register/:clientId", async (c) => {
+  const clientId = c.req.param("clientId");
+  const client = await authorizedClient(c.env, clientId, c.req.header("Authorization"));
+  if (!client) return invalidToken();
+
+  const body = await c.req.json().catch(() => null);
+  if (body?.client_id !== clientId) {
+    return c.json({ error: "invalid_client_metadata", error_description: "client_id must match the client being updated" }, 400);
+  }
+  const parsed = parseMetadata(body);
+  if ("error" in parsed) return c.json(parsed.error, 400);
+
+  if ((parsed.data.token_endpoint_auth_method === "none") !== (client.tokenEndpointAuthMethod === "none")) {
+    return c.json(
+      { error: "invalid_client_metadata", error_description: "token_endpoint_auth_method cannot switch between public and confidential" },
+      400,
+    );
+  }
+
+  const updated = await c.env.OAUTH_PROVIDER.updateClient(clientId, toClientInfo(parsed.data));
+  if (!updated) return invalidToken();
+
+  log.info("Client registration updated", { clientId });
+  return c.json(describeClient(updated, c.req.url), 200, { "Cache-Control": "no-store" });
+});
+
+/**
+ * Deregister a client (RFC 7592 §2.3).
+ */
+app.delete("/register/:clientId", async (c) => {
+  const clientId = c.req.param("clientId");
+  const client = await authorizedClient(c.env, clientId, c.req.header("Authorization"));
+  if (!client) return invalidToken();
+
+  await c.env.OAUTH_PROVIDER.deleteClient(clientId);
+  await c.env.OAUTH_KV.delete(`${REGISTRATION_PREFIX}${clientId}`);
+
+  log.info("Client deregistered", { clientId });
+  return c.body(null, 204);
+});
+
+// --- Helper Functions ---
+
+function parseMetadata(body: unknown): { data: ClientMetadata } | { error: { error: string; error_description: string } } {
+  const parsed = ClientMetadataSchema.safeParse(body);
+  if (parsed.success) return { data: parsed.data };
+
+  const issue = parsed.error.issues[0];
+  const error = issue.path[0] === "redirect_uris" ? "invalid_redirect_uri" : "invalid_client_metadata";
+  return { error: { error, error_description: `${issue.path.join(".") || "body"}: ${issue.message}` } };
+}
+
+function toClientInfo(metadata: ClientMetadata): Partial<ClientInfo> {
+  return {
+    redirectUris: metadata.redirect_uris,
+    grantTypes: metadata.grant_types,
+    responseTypes: metadata.response_types,
+    tokenEndpointAuthMethod: metadata.token_endpoint_auth_method,
+    clientName: metadata.client_name,
+    clientUri: metadata.client_uri,
+    logoUri: metadata.logo_uri,
+    policyUri: metadata.policy_uri,
+    tosUri: metadata.tos_uri,
+    jwksUri: metadata.jwks_uri,
+    contacts: metadata.contacts,
+  };
+}
+
+/**
+ * Registered metadata in RFC 7591 field names; never includes the secret.
+ */
+function describeClient(client: ClientInfo, requestUrl: string) {
+  return {
+    client_id: client.clientId,
+    client_id_issued_at: client.registrationDate,
+    redirect_uris: client.redirectUris,
+    grant_types: client.grantTypes,
+    response_types: client.responseTypes,
+    token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+    client_name: client.clientName,
+    client_uri: client.clientUri,
+    logo_uri: client.logoUri,
+    policy_uri: client.policyUri,
+    tos_uri: client.tosUri,
+    jwks_uri: client.jwksUri,
+    contacts: client.contacts,
+    registration_client_uri: new URL(`/register/${encodeURIComponent(client.clientId)}`, requestUrl).href,
+  };
+}
+
+/**
+ * The client, if the Bearer token is its registration access token. Unknown
+ * clients and wrong tokens look the same to the caller (RFC 7592 §2).
+ */
+async function authorizedClient(env: Env & { OAUTH_PROVIDER: OAuthHelpers }, clientId: string, authorization: string | undefined) {
+  const token = authorization?.startsWith("Bearer ") ? authorization.slice(7) : null;
+  if (!token) return null;
+
+  const registration = await env.OAUTH_KV.get<RegistrationRecord>(`${REGISTRATION_PREFIX}${clientId}`, "json");
+  if (!registration || !(await matchesHash(token, registration.tokenHash))) return null;
+
+  return env.OAUTH_PROVIDER.lookupClient(clientId);
+}
+
+function invalidToken(): Response {
+  return Response.json(
+    { error: "invalid_token", error_description: "Missing or invalid registration access token" },
+    { status: 401, headers: { "WWW-Authenticate": 'Bearer error="invalid_token"' } },
+  );
+}
+
+async function putRegistration(kv: KVNamespace, clientId: string, record: RegistrationRecord): Promise<void> {
+  await kv.put(`${REGISTRATION_PREFIX}${clientId}`, JSON.stringify(record));
+}
+
+function randomToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export { app as RegistrationHandler };
@@ -1,265 +1,300 @@
-import type { AuthRequest, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { AuthRequest, ClientInfo, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
 import { Hono } from "hono";
-import { fetchCognitoAuthToken, getCognitoAuthorizeUrl, parseJWT, Props, refreshCognitoTokens, isTokenNearExpiry, updatePropsWithTokens } from "./utils";
+import { AccountHandler } from "./account";
+import { createAccountSession } from "./account-session";
+import { RegistrationHandler } from "./client-registration";
+import { approvalCookieOptions, computeTokenExpiry, cookieSecrets, Props } from "./utils";
 import { env } from "cloudflare:workers";
-import { clientIdAlreadyApproved, parseRedirectApproval, renderApprovalDialog } from "./workers-oauth-utils";
+import { messagesFor, negotiateLocale, type AuthorizationErrorCode } from "./i18n";
+import { createIdentityProvider, IdentityProviderError, type UpstreamTokens, type UpstreamUser } from "./identity-provider";
+import { log } from "./logger";
+import { matchRedirectUri, resolveRedirectUri } from "./redirect-uris";
+import { RevocationHandler } from "./revocation";
+import { grantedScopes, REQUIRED_SCOPES } from "./scopes";
+import { themeFromEnv } from "./theme";
+import { tokenRefresher } from "./token-refresher";
+import { consumeUpstreamState, createUpstreamState } from "./upstream-state";
+import {
+  clientIdAlreadyApproved,
+  parseRedirectApproval,
+  renderApprovalDialog,
+  renderErrorPage,
+  type ParsedApprovalResult,
+} from "./workers-oauth-utils";
 
 const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>();
 
-/**
- * Token refresh middleware - automatically refreshes tokens if they're about to expire
- */
-async function refreshTokenIfNeeded(
-  currentProps: Props,
-  env: { COGNITO_DOMAIN: string; COGNITO_CLIENT_ID: string; COGNITO_CLIENT_SECRET: string }
-): Promise<Props> {
-  // Check if token needs refresh (within 5 minutes of expiry)
-  if (!isTokenNearExpiry(currentProps.tokenIssuedAt)) {
-    return currentProps; // No refresh needed
-  }
-
-  console.log(`Token for user ${currentProps.sub} is near expiry, attempting refresh...`);
-
-  // Attempt to refresh tokens
-  const [newTokens, errResponse] = await refreshCognitoTokens({
-    cognito_domain: env.COGNITO_DOMAIN,
-    client_id: env.COGNITO_CLIENT_ID,
-    client_secret: env.COGNITO_CLIENT_SECRET,
-    refresh_token: currentProps.refreshToken,
-  });
-
-  if (errResponse) {
-    console.error(`Failed to refresh tokens for user ${currentProps.sub}:`, errResponse.status);
-    return currentProps; // Return current props if refresh fails
-  }
-
-  // Update props with new tokens
-  const updatedProps = updatePropsWithTokens(currentProps, newTokens);
-  console.log(`Successfully refreshed tokens for user ${currentProps.sub}`);
-  
-  return updatedProps;
-}
+// Shown on the approval dialog when SERVER_NAME is not set
+const DEFAULT_SERVER_NAME = "MCP Server";
 
 app.get("/authorize", async (c) => {
-  const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
+  const parsed = await parseAuthorizeRequest(c.env, c.req.raw);
+  if ("error" in parsed) {
+    return authorizationError(c.env, c.req.raw, parsed.error, c.req.query("client_id"));
+  }
+  const { oauthReqInfo, client, registeredRedirectUri } = parsed;
   const { clientId } = oauthReqInfo;
-  if (!clientId) {
-    return c.text("Invalid request", 400);
+  if (grantedScopes(oauthReqInfo.scope).length === 0) {
+    return rejectUnknownScopes(oauthReqInfo);
   }
 
-  if (await clientIdAlreadyApproved(c.req.raw, oauthReqInfo.clientId, env.COOKIE_ENCRYPTION_KEY)) {
-    return redirectToCognito(c.req.raw, oauthReqInfo);
+  // A remembered approval only covers the same registered redirect URI (a loopback URI on any port)
+  // and no more scopes than were approved
+  const approval = { clientId, redirectUri: registeredRedirectUri, scopes: grantedScopes(oauthReqInfo.scope) };
+  if (await clientIdAlreadyApproved(c.req.raw, approval, approvalCookieOptions(c.env))) {
+    return redirectToUpstream(c.req.raw, oauthReqInfo);
   }
 
+  const locale = negotiateLocale(c.req.header("Accept-Language"));
+  const t = messagesFor(locale);
+  const identityProvider = createIdentityProvider(c.env);
   return renderApprovalDialog(c.req.raw, {
-    client: await c.env.OAUTH_PROVIDER.lookupClient(clientId),
+    client,
     server: {
-      name: "Cloudflare Cognito MCP Server",
-      logo: "https://d0.awsstatic.com/logos/powered-by-aws.png",
-      description: "This is a demo MCP Remote Server using AWS Cognito for authentication.",
+      name: c.env.SERVER_NAME || DEFAULT_SERVER_NAME,
+      description: t.serverDescription(identityProvider.displayName),
     },
-    state: { oauthReqInfo },
+    theme: themeFromEnv(c.env),
+    locale,
+    cookieDomain: approvalCookieOptions(c.env).cookieDomain,
+    scopes: grantedScopes(oauthReqInfo.scope).map((scope) => ({
+      name: scope,
+      description: t.scopes[scope],
+      required: REQUIRED_SCOPES.includes(scope),
+    })),
+    // Approve redirects to the identity provider, deny straight back to the client
+    redirectTargets: [await identityProvider.authorizationEndpoint(), oauthReqInfo.redirectUri],
+    // The approval is remembered for the registered URI, so a native app's next port is covered too
+    state: { oauthReqInfo, registeredRedirectUri },
   });
 });
 
 app.post("/authorize", async (c) => {
-  const { state, headers } = await parseRedirectApproval(c.req.raw, env.COOKIE_ENCRYPTION_KEY);
-  if (!state.oauthReqInfo) {
+  let approval: ParsedApprovalResult;
+  try {
+    approval = await parseRedirectApproval(c.req.raw, approvalCookieOptions(c.env));
+  } catch {
+    return c.text("Invalid request", 400);
+  }
+  const oauthReqInfo: AuthRequest | undefined = approval.state.oauthReqInfo;
+  if (!oauthReqInfo) {
     return c.text("Invalid request", 400);
   }
 
-  return redirectToCognito(c.req.raw, state.oauthReqInfo, headers);
+  // The request came back through the form, so check its client and redirect URI again
+  const client = await c.env.OAUTH_PROVIDER.lookupClient(oauthReqInfo.clientId);
+  if (!client) {
+    return authorizationError(c.env, c.req.raw, "unknown_client", oauthReqInfo.clientId);
+  }
+  const registeredRedirectUri = matchRedirectUri(oauthReqInfo.redirectUri, client.redirectUris);
+  if (!registeredRedirectUri || registeredRedirectUri !== approval.state.registeredRedirectUri) {
+    return authorizationError(c.env, c.req.raw, "invalid_redirect_uri", oauthReqInfo.clientId);
+  }
+
+  if (grantedScopes(oauthReqInfo.scope).length === 0) {
+    return rejectUnknownScopes(oauthReqInfo);
+  }
+
+  // Narrow the request to the scopes left ticked; required ones can't be dropped
+  const scopes = grantedScopes(oauthReqInfo.scope).filter((s) => approval.scopes.includes(s) || REQUIRED_SCOPES.includes(s));
+  if (!approval.approved || scopes.length === 0) {
+    return denyAuthorization(oauthReqInfo);
+  }
+
+  return redirectToUpstream(c.req.raw, { ...oauthReqInfo, scope: scopes }, approval.headers);
 });
 
-async function redirectToCognito(request: Request, oauthReqInfo: AuthRequest, headers: Record<string, string> = {}) {
-  return new Response(null, {
+/**
+ * Parses an authorization request, accepting it only from a registered client and for a
+ * redirect URI that client registered (exactly, or a loopback URI on another port; see redirect-uris.ts).
+ */
+async function parseAuthorizeRequest(
+  env: Env & { OAUTH_PROVIDER: OAuthHelpers },
+  request: Request,
+): Promise<{ oauthReqInfo: AuthRequest; client: ClientInfo; registeredRedirectUri: string } | { error: AuthorizationErrorCode }> {
+  const url = new URL(request.url);
+  const clientId = url.searchParams.get("client_id");
+  const client = clientId ? await env.OAUTH_PROVIDER.lookupClient(clientId) : null;
+  if (!client) return { error: clientId ? "unknown_client" : "invalid_request" };
+
+  const redirect = resolveRedirectUri(url.searchParams.get("redirect_uri"), client.redirectUris);
+  if (!redirect) return { error: "invalid_redirect_uri" };
+
+  // The provider only accepts registered URIs verbatim; the client is still sent back to the port it asked for
+  url.searchParams.set("redirect_uri", redirect.registered);
+  try {
+    const oauthReqInfo = await env.OAUTH_PROVIDER.parseAuthRequest(new Request(url, request));
+    return { oauthReqInfo: { ...oauthReqInfo, redirectUri: redirect.requested }, client, registeredRedirectUri: redirect.registered };
+  } catch {
+    return { error: "invalid_request" };
+  }
+}
+
+/**
+ * Refuses an authorization request with an error page. The client or its redirect URI
+ * cannot be trusted, so unlike a denial nothing is sent back to the client.
+ */
+function authorizationError(env: Env, request: Request, error: AuthorizationErrorCode, clientId?: string) {
+  log.warn("Authorization request refused", { clientId, error });
+  return renderErrorPage(request, { error, server: { name: env.SERVER_NAME || DEFAULT_SERVER_NAME }, theme: themeFromEnv(env) });
+}
+
+/**
+ * Sends the user back to the client with `error=access_denied` (RFC 6749 §4.1.2.1).
+ * The caller has checked the redirect URI against the client's registered ones.
+ */
+function denyAuthorization(oauthReqInfo: AuthRequest) {
+  log.info("Authorization denied", { clientId: oauthReqInfo.clientId });
+  return redirectWithError(oauthReqInfo, "access_denied", "The user denied the request");
+}
+
+/**
+ * Sends the client back with `error=invalid_scope` when it asked only for scopes this
+ * server does not know, which would otherwise end in a grant with no scopes at all.
+ */
+function rejectUnknownScopes(oauthReqInfo: AuthRequest) {
+  log.warn("Authorization request refused", { clientId: oauthReqInfo.clientId, error: "invalid_scope", scopes: oauthReqInfo.scope });
+  return redirectWithError(oauthReqInfo, "invalid_scope", "None of the requested scopes are supported");
+}
+
+function redirectWithError(oauthReqInfo: AuthRequest, error: string, description: string) {
+  const redirect = new URL(oauthReqInfo.redirectUri);
+  redirect.searchParams.set("error", error);
+  redirect.searchParams.set("error_description", description);
+  if (oauthReqInfo.state) redirect.searchParams.set("state", oauthReqInfo.state);
+  return Response.redirect(redirect.href, 302);
+}
+
+async function redirectToUpstream(request: Request, oauthReqInfo: AuthRequest, headers: Record<string, string> = {}) {
+  const upstream = await createUpstreamState(env.OAUTH_KV, { oauthReqInfo });
+  const response = new Response(null, {
     status: 302,
     headers: {
       ...headers,
-      location: getCognitoAuthorizeUrl({
-        cognito_domain: env.COGNITO_DOMAIN,
-        client_id: env.COGNITO_CLIENT_ID,
-        redirect_uri: new URL("/callback", request.url).href,
-        state: btoa(JSON.stringify(oauthReqInfo)),
+      location: await createIdentityProvider(env).authorizeUrl({
+        redirectUri: new URL("/callback", request.url).href,
+        state: upstream.state,
+        codeChallenge: upstream.codeChallenge,
       }),
     },
   });
+  // Appended, since `headers` may already set the approval cookie
+  response.headers.append("Set-Cookie", upstream.headers["Set-Cookie"]);
+  return response;
 }
 
 /**
  * OAuth Callback Endpoint
  *
- * This route handles the callback from Cognito after user authentication.
- * It exchanges the temporary code for tokens, then extracts user info from ID token.
+ * This route handles the callback from the identity provider after user authentication.
+ * It checks the state against this browser's state cookie and consumes it, exchanges the
+ * temporary code (with the PKCE verifier) for tokens, then asks the provider who the user
+ * is (verifying the ID token, if any).
+ * Sign-ins for the account pages end here with an account session instead of a grant.
  */
 app.get("/callback", async (c) => {
-  const oauthReqInfo = JSON.parse(atob(c.req.query("state") as string)) as AuthRequest;
-  if (!oauthReqInfo.clientId) {
+  // State is a single-use nonce bound to this browser; unknown, expired, replayed or foreign values are rejected
+  const upstreamState = await consumeUpstreamState(c.env.OAUTH_KV, c.req.raw);
+  if (!upstreamState || !(upstreamState.oauthReqInfo?.clientId || upstreamState.returnTo)) {
+    log.warn("Rejected callback state");
     return c.text("Invalid state", 400);
   }
+  const { oauthReqInfo, returnTo, codeVerifier } = upstreamState;
 
-  // Exchange the code for tokens from Cognito
-  const [tokens, errResponse] = await fetchCognitoAuthToken({
-    cognito_domain: c.env.COGNITO_DOMAIN,
-    client_id: c.env.COGNITO_CLIENT_ID,
-    client_secret: c.env.COGNITO_CLIENT_SECRET,
-    code: c.req.query("code"),
-    redirect_uri: new URL("/callback", c.req.url).href,
-  });
-  if (errResponse) return errResponse;
+  const code = c.req.query("code");
+  if (!code) {
+    return c.text("Missing code", 400);
+  }
 
-  // Parse the ID token to get user info
-  const idTokenPayload = parseJWT(tokens.id_token);
-  const { sub, email, given_name, family_name } = idTokenPayload;
+  // Exchange the code for tokens and identify the user
+  const provider = createIdentityProvider(c.env);
+  let tokens: UpstreamTokens;
+  let user: UpstreamUser;
+  try {
+    tokens = await provider.exchangeCode({ code, redirectUri: new URL("/callback", c.req.url).href, codeVerifier });
+    user = await provider.userInfo(tokens);
+  } catch (error) {
+    if (!(error instanceof IdentityProviderError)) throw error;
+    return c.text(error.code === "invalid_id_token" ? "Invalid ID token" : "Failed to sign in with the identity provider", 502);
+  }
+  const { sub, login, name, email } = user;
+
+  if (!oauthReqInfo) {
+    log.info("Account sign-in completed", { sub });
+    const session = await createAccountSession(cookieSecrets(c.env), user);
+    return new Response(null, { status: 302, headers: { ...session, Location: returnTo } });
+  }
 
   // Calculate token expiration times
   const now = Math.floor(Date.now() / 1000);
-  const tokenExpiresAt = now + (60 * 60); // 60 minutes from now (1 hour)
+  const tokenExpiresAt = computeTokenExpiry(tokens, now);
+
+  // Only grant scopes this server understands
+  const scopes = grantedScopes(oauthReqInfo.scope);
+
+  const props: Props = {
+    sub,
+    login,
+    name,
+    email,
+    accessToken: tokens.accessToken,
+    idToken: tokens.idToken ?? "",
+    refreshToken: tokens.refreshToken ?? "",
+    tokenIssuedAt: now,
+    tokenExpiresAt: tokenExpiresAt,
+    scopes,
+  };
+
+  // Sessions from this user's other grants pick up the newest tokens from here
+  await tokenRefresher(c.env, sub).remember(props);
 
   // Return back to the MCP client a new token
   const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
     request: oauthReqInfo,
     userId: sub,
     metadata: {
-      label: given_name && family_name ? `${given_name} ${family_name}` : email,
+      label: name,
     },
-    scope: oauthReqInfo.scope,
-    props: {
-      sub,
-      login: email,
-      name: given_name && family_name ? `${given_name} ${family_name}` : email,
-      email,
-      accessToken: tokens.access_token,
-      idToken: tokens.id_token,
-      refreshToken: tokens.refresh_token,
-      tokenIssuedAt: now,
-      tokenExpiresAt: tokenExpiresAt,
-    } as Props,
+    scope: scopes,
+    props,
   });
 
+  log.info("Authorization completed", { sub, clientId: oauthReqInfo.clientId, scopes });
   return Response.redirect(redirectTo);
 });
 
 /**
- * Token Refresh Endpoint
- * 
- * This endpoint allows explicit token refresh using a refresh token.
- * It's designed to be called by MCP clients when they detect token expiry.
+ * Legacy Token Endpoints
+ *
+ * `/refresh` and `/validate-token` used to hand upstream tokens to any caller
+ * holding a refresh token. MCP clients now refresh with the standard
+ * `grant_type=refresh_token` request to `/token`; upstream tokens are refreshed
+ * server-side and never leave the Worker. In the default `deprecated` mode
+ * (LEGACY_TOKEN_ENDPOINTS) calls are logged and rejected with a pointer to
+ * `/token`; in `removed` mode the routes no longer exist.
  */
-app.post("/refresh", async (c) => {
-  try {
-    const { refresh_token, user_id } = await c.req.json();
-    
-    if (!refresh_token) {
-      return c.json({ error: "refresh_token is required" }, 400);
-    }
-
-    // Attempt to refresh tokens
-    const [newTokens, errResponse] = await refreshCognitoTokens({
-      cognito_domain: c.env.COGNITO_DOMAIN,
-      client_id: c.env.COGNITO_CLIENT_ID,
-      client_secret: c.env.COGNITO_CLIENT_SECRET,
-      refresh_token,
-    });
-
-    if (errResponse) {
-      console.error("Token refresh failed:", errResponse.status);
-      return c.json({ error: "token_refresh_failed" }, 400);
-    }
-
-    // Parse the new ID token to get updated user info
-    const idTokenPayload = parseJWT(newTokens.id_token);
-    const { sub, email, given_name, family_name } = idTokenPayload;
-    const now = Math.floor(Date.now() / 1000);
-
-    // Return the refreshed tokens and user info
-    const refreshedProps = {
-      sub,
-      login: email,
-      name: given_name && family_name ? `${given_name} ${family_name}` : email,
-      email,
-      accessToken: newTokens.access_token,
-      idToken: newTokens.id_token,
-      refreshToken: newTokens.refresh_token || refresh_token, // Use new refresh token or keep the old one
-      tokenIssuedAt: now,
-      tokenExpiresAt: now + (60 * 60), // 60 minutes from now
-    };
-
-    return c.json({
-      success: true,
-      tokens: refreshedProps
-    });
-  } catch (error) {
-    console.error("Token refresh error:", error);
-    return c.json({ error: "invalid_request" }, 400);
-  }
-});
+for (const path of ["/refresh", "/validate-token"]) {
+  app.post(path, async (c, next) => {
+    if (c.env.LEGACY_TOKEN_ENDPOINTS === "removed") return next();
 
-/**
- * Token Validation and Auto-Refresh Endpoint
- * 
- * This endpoint checks if the current token is valid and automatically refreshes it if needed.
- * MCP clients can call this periodically to ensure they always have valid tokens.
- */
-app.post("/validate-token", async (c) => {
-  try {
-    const { props } = await c.req.json();
-    
-    if (!props || !props.refreshToken || !props.tokenIssuedAt) {
-      return c.json({ 
-        error: "invalid_request",
-        message: "Missing required token properties"
-      }, 400);
-    }
-
-    // Check if token needs refresh and refresh it if necessary
-    const updatedProps = await refreshTokenIfNeeded(props, {
-      COGNITO_DOMAIN: c.env.COGNITO_DOMAIN,
-      COGNITO_CLIENT_ID: c.env.COGNITO_CLIENT_ID,
-      COGNITO_CLIENT_SECRET: c.env.COGNITO_CLIENT_SECRET,
-    });
-
-    // Check if tokens were actually refreshed
-    const wasRefreshed = updatedProps.tokenIssuedAt !== props.tokenIssuedAt;
-
-    return c.json({
-      success: true,
-      refreshed: wasRefreshed,
-      tokens: updatedProps,
-      message: wasRefreshed ? "Tokens were refreshed successfully" : "Tokens are still valid"
-    });
-  } catch (error) {
-    console.error("Token validation error:", error);
-    return c.json({ 
-      error: "validation_failed",
-      message: "Failed to validate or refresh tokens"
-    }, 500);
-  }
-});
+    log.warn("Legacy token endpoint called", { path, userAgent: c.req.header("User-Agent") });
+    return c.json(
+      {
+        error: "endpoint_removed",
+        error_description: `${path} has been removed. Refresh MCP access tokens with grant_type=refresh_token at /token.`,
+      },
+      410,
+    );
+  });
+}
 
-/**
- * Client Registration Endpoint
- */
-app.post("/register", async (c) => {
-  try {
-    const clientInfo = await c.req.json();
-    
-    const clientId = `mcp-client-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const clientSecret = crypto.randomUUID();
-    
-    const response = {
-      client_id: clientId,
-      client_secret: clientSecret,
-      client_id_issued_at: Math.floor(Date.now() / 1000),
-      client_secret_expires_at: 0,
-      ...clientInfo
-    };
-    
-    return c.json(response);
-  } catch (error) {
-    console.error("Client registration error:", error);
-    return c.json({ error: "invalid_client_metadata" }, 400);
-  }
-});
+// Dynamic client registration (RFC 7591 / 7592) at /register
+app.route("/", RegistrationHandler);
+
+// Token revocation (RFC 7009) at /revoke, sign-out at /logout
+app.route("/", RevocationHandler);
+
+// Connected apps at /account/connections
+app.route("/", AccountHandler);
 
-export { app as CognitoHandler };
+export { app as AuthHandler };
@@ -0,0 +1,67 @@
+import { tokenGrantIds } from "./provider-store";
+
+/**
+ * When each OAuth grant was last used, for the connected-apps page.
+ *
+ * Stored in OAUTH_KV under `grant_last_used:<userId>:<grantId>` as Unix
+ * seconds. To keep KV writes down, each isolate writes a grant's timestamp at
+ * most once per `WRITE_INTERVAL_MS`, so the value can lag by that much.
+ */
+
+const LAST_USED_PREFIX = "grant_last_used:";
+
+// Minimum gap between writes for one grant from one isolate
+const WRITE_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+// grant key → when this isolate last wrote it, for the last WRITE_INTERVAL_MS only
+const lastWritten = new Map<string, number>();
+
+/**
+ * Records that an MCP access token was just used.
+ * @param kv - The OAUTH_KV namespace.
+ * @param accessToken - The provider-issued access token.
+ */
+export async function recordGrantUse(kv: KVNamespace, accessToken: string): Promise<void> {
+  const ids = tokenGrantIds(accessToken);
+  if (!ids) return;
+  const key = `${LAST_USED_PREFIX}${ids.userId}:${ids.grantId}`;
+
+  const now = Date.now();
+  if (now - (lastWritten.get(key) ?? 0) < WRITE_INTERVAL_MS) return;
+  forgetStaleWrites(now);
+  // Re-insert so the map stays in write order
+  lastWritten.delete(key);
+  lastWritten.set(key, now);
+  await kv.put(key, String(Math.floor(now / 1000)));
+}
+
+/**
+ * When a grant was last used.
+ * @returns Unix seconds, or null if it has not been used since last-use tracking began.
+ */
+export async function grantLastUsed(kv: KVNamespace, userId: string, grantId: string): Promise<number | null> {
+  const value = await kv.get(`${LAST_USED_PREFIX}${userId}:${grantId}`);
+  return value ? Number(value) : null;
+}
+
+/**
+ * Drops a revoked grant's last-use record.
+ */
+export async function forgetGrantUse(kv: KVNamespace, userId: string, grantId: string): Promise<void> {
+  const key = `${LAST_USED_PREFIX}${userId}:${grantId}`;
+  lastWritten.delete(key);
+  await kv.delete(key);
+}
+
+// --- Helper Functions ---
+
+/**
+ * Drops entries that no longer hold back a write, so the map only grows with the grants used in the last interval.
+ * Entries are in insertion order, which is write order, so the scan stops at the first recent one.
+ */
+function forgetStaleWrites(now: number): void {
+  for (const [key, writtenAt] of lastWritten) {
+    if (now - writtenAt < WRITE_INTERVAL_MS) return;
+    lastWritten.delete(key);
+  }
+}
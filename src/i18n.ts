@@ -0,0 +1,182 @@
+import { SCOPES, type Scope } from "./scopes";
+
+/**
+ * Strings for the pages users see in the browser, in every supported locale.
+ *
+ * The locale comes from the request's `Accept-Language` header. Message
+ * functions take values that are already HTML-escaped, so they can be placed
+ * straight into a template.
+ */
+
+export const LOCALES = ["en", "de"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Why an authorization request was refused without showing the approval dialog */
+export type AuthorizationErrorCode = "unknown_client" | "invalid_redirect_uri" | "invalid_request";
+
+export interface DialogMessages {
+  title: (client: string) => string;
+  logoAlt: (server: string) => string;
+  unknownClient: string;
+  requestingAccess: (client: string) => string;
+  labels: {
+    name: string;
+    website: string;
+    privacyPolicy: string;
+    termsOfService: string;
+    redirectUris: string;
+    contact: string;
+  };
+  explanation: (server: string) => string;
+  scopesTitle: string;
+  required: string;
+  deny: string;
+  approve: string;
+  /** Description of this server, naming the identity provider users sign in with */
+  serverDescription: (provider: string) => string;
+  scopes: Record<Scope, string>;
+  errorTitle: string;
+  errors: Record<AuthorizationErrorCode, string>;
+  /** The connected-apps page */
+  account: {
+    title: string;
+    signedInAs: (name: string) => string;
+    signOut: string;
+    noConnections: string;
+    labels: {
+      authorized: string;
+      lastUsed: string;
+      access: string;
+    };
+    never: string;
+    noScopes: string;
+    revoke: string;
+  };
+}
+
+const MESSAGES: Record<Locale, DialogMessages> = {
+  en: {
+    title: (client) => `${client} | Authorization Request`,
+    logoAlt: (server) => `${server} Logo`,
+    unknownClient: "Unknown MCP Client",
+    requestingAccess: (client) => `<strong>${client}</strong> is requesting access`,
+    labels: {
+      name: "Name:",
+      website: "Website:",
+      privacyPolicy: "Privacy Policy:",
+      termsOfService: "Terms of Service:",
+      redirectUris: "Redirect URIs:",
+      contact: "Contact:",
+    },
+    explanation: (server) =>
+      `This MCP Client is requesting to be authorized on ${server}. If you approve, you will be redirected to complete authentication.`,
+    scopesTitle: "It will be able to:",
+    required: "(required)",
+    deny: "Deny",
+    approve: "Approve",
+    serverDescription: (provider) => `This is a demo MCP Remote Server using ${provider} for authentication.`,
+    scopes: SCOPES,
+    errorTitle: "Authorization failed",
+    errors: {
+      unknown_client: "The application that sent you here is not registered with this server.",
+      invalid_redirect_uri:
+        "The application asked to send you back to an address it has not registered, so the request was stopped to protect your account.",
+      invalid_request: "The authorization request is missing information or is malformed.",
+    },
+    account: {
+      title: "Connected apps",
+      signedInAs: (name) => `Signed in as <strong>${name}</strong>.`,
+      signOut: "Sign out",
+      noConnections: "No MCP clients have access to your account.",
+      labels: {
+        authorized: "Authorized:",
+        lastUsed: "Last used:",
+        access: "Access:",
+      },
+      never: "Never",
+      noScopes: "None",
+      revoke: "Revoke access",
+    },
+  },
+  de: {
+    title: (client) => `${client} | Autorisierungsanfrage`,
+    logoAlt: (server) => `${server}-Logo`,
+    unknownClient: "Unbekannter MCP-Client",
+    requestingAccess: (client) => `<strong>${client}</strong> bittet um Zugriff`,
+    labels: {
+      name: "Name:",
+      website: "Website:",
+      privacyPolicy: "Datenschutzerklärung:",
+      termsOfService: "Nutzungsbedingungen:",
+      redirectUris: "Weiterleitungs-URIs:",
+      contact: "Kontakt:",
+    },
+    explanation: (server) =>
+      `Dieser MCP-Client möchte auf ${server} autorisiert werden. Wenn Sie zustimmen, werden Sie zur Anmeldung weitergeleitet.`,
+    scopesTitle: "Er erhält folgende Berechtigungen:",
+    required: "(erforderlich)",
+    deny: "Ablehnen",
+    approve: "Zulassen",
+    serverDescription: (provider) => `Dies ist ein Demo-MCP-Remote-Server, der ${provider} für die Anmeldung verwendet.`,
+    scopes: {
+      "todos:read": "Ihre Aufgaben ansehen",
+      "todos:write": "Aufgaben anlegen, ändern, abschließen und löschen",
+    },
+    errorTitle: "Autorisierung fehlgeschlagen",
+    errors: {
+      unknown_client: "Die Anwendung, die Sie hierher geschickt hat, ist bei diesem Server nicht registriert.",
+      invalid_redirect_uri:
+        "Die Anwendung wollte Sie an eine Adresse zurückleiten, die sie nicht registriert hat. Zum Schutz Ihres Kontos wurde die Anfrage abgebrochen.",
+      invalid_request: "Die Autorisierungsanfrage ist unvollständig oder fehlerhaft.",
+    },
+    account: {
+      title: "Verbundene Anwendungen",
+      signedInAs: (name) => `Angemeldet als <strong>${name}</strong>.`,
+      signOut: "Abmelden",
+      noConnections: "Keine MCP-Clients haben Zugriff auf Ihr Konto.",
+      labels: {
+        authorized: "Autorisiert:",
+        lastUsed: "Zuletzt verwendet:",
+        access: "Zugriff:",
+      },
+      never: "Nie",
+      noScopes: "Keine",
+      revoke: "Zugriff entziehen",
+    },
+  },
+};
+
+/**
+ * Picks the supported locale the user prefers most (RFC 9110 §12.5.4).
+ * A region tag such as `de-AT` falls back to its language, `de`.
+ * @param acceptLanguage - The request's Accept-Language header.
+ * @returns The best match, or DEFAULT_LOCALE if none is acceptable.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranges = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().toLowerCase().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return { tag, q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter((range) => range.tag && range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranges) {
+    if (tag === "*") return DEFAULT_LOCALE;
+    const match = LOCALES.find((locale) => locale === tag || locale === tag.split("-")[0]);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * The strings for a locale.
+ */
+export function messagesFor(locale: Locale): DialogMessages {
+  return MESSAGES[locale];
+}
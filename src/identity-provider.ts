@@ -0,0 +1,510 @@
+import { cognitoIssuer, JwtVerificationError, verifyJwt, type JwtVerifyOptions } from "./jwt";
+import { log, type LogFields } from "./logger";
+
+/**
+ * Upstream identity providers.
+ *
+ * The `/authorize` → `/callback` routes sign the user in with whichever
+ * provider `IDENTITY_PROVIDER` selects:
+ *
+ * - `cognito` (default): an AWS Cognito user pool's hosted UI
+ * - `github`: a GitHub OAuth app
+ * - `oidc`: any OpenID Connect provider, configured through discovery from `OIDC_ISSUER`
+ *
+ * `UPSTREAM_SCOPES` overrides the scopes requested from the provider.
+ */
+
+// --- Types ---
+
+/**
+ * Tokens returned by a provider's token endpoint.
+ */
+export interface UpstreamTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  /** Access token lifetime in seconds, if the provider said */
+  expiresIn?: number;
+}
+
+/**
+ * The signed-in user, mapped onto the identity fields of `Props`.
+ */
+export interface UpstreamUser {
+  /** Stable user id at the provider */
+  sub: string;
+  login: string;
+  name: string;
+  email: string;
+}
+
+export interface IdentityProvider {
+  /** Human-readable provider name, shown on the approval dialog */
+  readonly displayName: string;
+
+  /**
+   * Builds the URL that starts sign-in at the provider (authorization code flow, PKCE S256).
+   */
+  authorizeUrl(options: { redirectUri: string; state: string; codeChallenge: string }): Promise<string>;
+
+  /**
+   * The provider's authorization endpoint, where `authorizeUrl` sends the browser.
+   */
+  authorizationEndpoint(): Promise<string>;
+
+  /**
+   * Exchanges an authorization code for tokens.
+   */
+  exchangeCode(options: { code: string; redirectUri: string; codeVerifier: string }): Promise<UpstreamTokens>;
+
+  /**
+   * Gets fresh tokens with a refresh token.
+   */
+  refresh(refreshToken: string): Promise<UpstreamTokens>;
+
+  /**
+   * Identifies the user the tokens belong to. ID tokens are verified before they are trusted.
+   */
+  userInfo(tokens: UpstreamTokens): Promise<UpstreamUser>;
+
+  /**
+   * Revokes the user's upstream authorization: the refresh token where the provider
+   * supports it, else the access token.
+   */
+  revoke(tokens: Pick<UpstreamTokens, "accessToken" | "refreshToken">): Promise<void>;
+
+  /**
+   * URL that ends the user's session at the provider and then returns to `returnTo`,
+   * or null if the provider has no such endpoint.
+   */
+  logoutUrl(returnTo: string): Promise<string | null>;
+}
+
+/**
+ * An upstream request failed or returned something we cannot trust.
+ */
+export class IdentityProviderError extends Error {
+  constructor(
+    message: string,
+    /** Machine-readable error code, e.g. `token_request_failed`, `invalid_id_token`, `revocation_failed` */
+    public readonly code: string,
+  ) {
+    super(message);
+    this.name = "IdentityProviderError";
+  }
+}
+
+interface ClientConfig {
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+// --- OpenID Connect ---
+
+interface OidcEndpoints {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+  jwksUri: string;
+  revocationEndpoint?: string;
+  endSessionEndpoint?: string;
+}
+
+// Discovery documents, cached per issuer for the life of the isolate
+const discovered = new Map<string, Promise<OidcEndpoints>>();
+
+/**
+ * Generic OpenID Connect provider, configured from the issuer's discovery document.
+ */
+export class OidcProvider implements IdentityProvider {
+  constructor(
+    public readonly displayName: string,
+    protected readonly client: ClientConfig,
+    private readonly issuer?: string,
+  ) {}
+
+  async authorizeUrl({ redirectUri, state, codeChallenge }: { redirectUri: string; state: string; codeChallenge: string }): Promise<string> {
+    return buildAuthorizeUrl(await this.authorizationEndpoint(), this.client, { redirectUri, state, codeChallenge });
+  }
+
+  async authorizationEndpoint(): Promise<string> {
+    return (await this.endpoints()).authorizationEndpoint;
+  }
+
+  async exchangeCode({ code, redirectUri, codeVerifier }: { code: string; redirectUri: string; codeVerifier: string }): Promise<UpstreamTokens> {
+    const { tokenEndpoint } = await this.endpoints();
+    return requestTokens(tokenEndpoint, this.client, {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+    });
+  }
+
+  async refresh(refreshToken: string): Promise<UpstreamTokens> {
+    const { tokenEndpoint } = await this.endpoints();
+    const tokens = await requestTokens(tokenEndpoint, this.client, { grant_type: "refresh_token", refresh_token: refreshToken });
+    // Most providers only rotate the refresh token when configured to
+    return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+  }
+
+  async userInfo(tokens: UpstreamTokens): Promise<UpstreamUser> {
+    const claims = tokens.idToken ? await this.verifyIdToken(tokens.idToken) : await this.fetchUserInfo(tokens.accessToken);
+    const email = typeof claims.email === "string" ? claims.email : "";
+    const fullName = claims.given_name && claims.family_name ? `${claims.given_name} ${claims.family_name}` : undefined;
+    return {
+      sub: String(claims.sub),
+      // Empty claims fall through too, e.g. the "" email of a user without one
+      login: String(claims.preferred_username || email || claims.sub),
+      name: String(claims.name || fullName || email || claims.sub),
+      email,
+    };
+  }
+
+  async revoke({ accessToken, refreshToken }: Pick<UpstreamTokens, "accessToken" | "refreshToken">): Promise<void> {
+    const { revocationEndpoint } = await this.endpoints();
+    if (!revocationEndpoint) {
+      log.warn("Identity provider has no revocation endpoint", { provider: this.displayName });
+      return;
+    }
+    await revokeToken(revocationEndpoint, this.client, refreshToken ? { token: refreshToken, token_type_hint: "refresh_token" } : { token: accessToken });
+  }
+
+  async logoutUrl(returnTo: string): Promise<string | null> {
+    const { endSessionEndpoint } = await this.endpoints();
+    if (!endSessionEndpoint) return null;
+    const url = new URL(endSessionEndpoint);
+    url.searchParams.set("client_id", this.client.clientId);
+    url.searchParams.set("post_logout_redirect_uri", returnTo);
+    return url.href;
+  }
+
+  /**
+   * Endpoints from `<issuer>/.well-known/openid-configuration`.
+   */
+  protected async endpoints(): Promise<OidcEndpoints> {
+    const issuer = this.issuer!.replace(/\/+$/, "");
+    let endpoints = discovered.get(issuer);
+    if (!endpoints) {
+      endpoints = discover(issuer);
+      discovered.set(issuer, endpoints);
+      // Don't cache failures; the next sign-in retries discovery
+      endpoints.catch(() => discovered.delete(issuer));
+    }
+    return endpoints;
+  }
+
+  /**
+   * Claims an ID token must carry for this provider.
+   */
+  protected async idTokenChecks(): Promise<JwtVerifyOptions> {
+    const { issuer, jwksUri } = await this.endpoints();
+    return { jwksUrl: jwksUri, issuer, audience: this.client.clientId };
+  }
+
+  private async verifyIdToken(idToken: string): Promise<Record<string, unknown>> {
+    try {
+      return await verifyJwt(idToken, await this.idTokenChecks());
+    } catch (e) {
+      if (!(e instanceof JwtVerificationError)) throw e;
+      log.warn("Rejected ID token", { provider: this.displayName, reason: e.reason, error: e });
+      throw new IdentityProviderError(`Invalid ID token: ${e.message}`, "invalid_id_token");
+    }
+  }
+
+  private async fetchUserInfo(accessToken: string): Promise<Record<string, unknown>> {
+    const { userinfoEndpoint } = await this.endpoints();
+    if (!userinfoEndpoint) throw new IdentityProviderError("Provider returned no ID token and has no userinfo endpoint", "userinfo_failed");
+    return fetchJson(userinfoEndpoint, accessToken, "userinfo_failed");
+  }
+}
+
+/**
+ * AWS Cognito user pool. Endpoints come from the hosted UI domain, and ID tokens
+ * must be `token_use: id` tokens from the configured pool.
+ */
+export class CognitoProvider extends OidcProvider {
+  constructor(
+    client: ClientConfig,
+    private readonly pool: Pick<Env, "COGNITO_DOMAIN" | "COGNITO_USER_POOL_ID" | "AWS_REGION">,
+  ) {
+    super("AWS Cognito", client);
+  }
+
+  protected async endpoints(): Promise<OidcEndpoints> {
+    const { issuer, jwksUrl } = cognitoIssuer(this.pool);
+    return {
+      issuer,
+      authorizationEndpoint: `https://${this.pool.COGNITO_DOMAIN}/oauth2/authorize`,
+      tokenEndpoint: `https://${this.pool.COGNITO_DOMAIN}/oauth2/token`,
+      userinfoEndpoint: `https://${this.pool.COGNITO_DOMAIN}/oauth2/userInfo`,
+      jwksUri: jwksUrl,
+      revocationEndpoint: `https://${this.pool.COGNITO_DOMAIN}/oauth2/revoke`,
+    };
+  }
+
+  /**
+   * Cognito only revokes refresh tokens; revoking one also invalidates the access tokens issued from it.
+   */
+  async revoke({ refreshToken }: Pick<UpstreamTokens, "accessToken" | "refreshToken">): Promise<void> {
+    if (!refreshToken) return;
+    const { revocationEndpoint } = await this.endpoints();
+    await revokeToken(revocationEndpoint!, this.client, { token: refreshToken });
+  }
+
+  /**
+   * The hosted UI's `/logout`; `returnTo` must be one of the app client's allowed sign-out URLs.
+   */
+  async logoutUrl(returnTo: string): Promise<string | null> {
+    const url = new URL(`https://${this.pool.COGNITO_DOMAIN}/logout`);
+    url.searchParams.set("client_id", this.client.clientId);
+    url.searchParams.set("logout_uri", returnTo);
+    return url.href;
+  }
+
+  protected async idTokenChecks(): Promise<JwtVerifyOptions> {
+    return { ...(await super.idTokenChecks()), tokenUse: "id" };
+  }
+}
+
+// --- GitHub ---
+
+// Scopes that let a token read the user's email addresses, including private ones
+const GITHUB_EMAIL_SCOPES = ["user", "user:email"];
+
+/**
+ * GitHub OAuth app. GitHub issues no ID token, so the user comes from the REST API.
+ * Refresh only works for apps with expiring user tokens enabled.
+ */
+export class GitHubProvider implements IdentityProvider {
+  readonly displayName = "GitHub";
+
+  constructor(private readonly client: ClientConfig) {}
+
+  async authorizeUrl({ redirectUri, state, codeChallenge }: { redirectUri: string; state: string; codeChallenge: string }): Promise<string> {
+    return buildAuthorizeUrl(await this.authorizationEndpoint(), this.client, { redirectUri, state, codeChallenge });
+  }
+
+  async authorizationEndpoint(): Promise<string> {
+    return "https://github.com/login/oauth/authorize";
+  }
+
+  async exchangeCode({ code, redirectUri, codeVerifier }: { code: string; redirectUri: string; codeVerifier: string }): Promise<UpstreamTokens> {
+    return requestTokens("https://github.com/login/oauth/access_token", this.client, {
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+    });
+  }
+
+  async refresh(refreshToken: string): Promise<UpstreamTokens> {
+    return requestTokens("https://github.com/login/oauth/access_token", this.client, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+  }
+
+  async userInfo(tokens: UpstreamTokens): Promise<UpstreamUser> {
+    const user = await fetchJson<{ id: number; login: string; name: string | null; email: string | null }>(
+      "https://api.github.com/user",
+      tokens.accessToken,
+      "userinfo_failed",
+    );
+    const email = user.email || (await this.primaryEmail(tokens.accessToken));
+    return { sub: String(user.id), login: user.login, name: user.name || user.login, email };
+  }
+
+  /**
+   * Deletes the app's authorization for the user, which revokes every token it issued them.
+   */
+  async revoke({ accessToken }: Pick<UpstreamTokens, "accessToken" | "refreshToken">): Promise<void> {
+    const resp = await fetch(`https://api.github.com/applications/${encodeURIComponent(this.client.clientId)}/grant`, {
+      method: "DELETE",
+      headers: {
+        Authorization: basicAuth(this.client),
+        Accept: "application/vnd.github+json",
+        "Content-Type": "application/json",
+        "User-Agent": "remote-mcp-server",
+      },
+      body: JSON.stringify({ access_token: accessToken }),
+    });
+    // 404: the authorization is already gone
+    if (!resp.ok && resp.status !== 404) {
+      log.error("Upstream revocation failed", { provider: this.displayName, ...(await upstreamError(resp)) });
+      throw new IdentityProviderError("Revocation at the identity provider failed", "revocation_failed");
+    }
+  }
+
+  /**
+   * GitHub has no endpoint that signs the user out of github.com for us.
+   */
+  async logoutUrl(): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * The user's verified primary email. `/user` leaves `email` null when the user keeps it
+   * private, but `/user/emails` lists it for tokens with an email scope.
+   */
+  private async primaryEmail(accessToken: string): Promise<string> {
+    if (!this.client.scopes.split(/\s+/).some((scope) => GITHUB_EMAIL_SCOPES.includes(scope))) return "";
+    const emails = await fetchJson<{ email: string; primary: boolean; verified: boolean }[]>(
+      "https://api.github.com/user/emails",
+      accessToken,
+      "userinfo_failed",
+    );
+    return emails.find((e) => e.primary && e.verified)?.email ?? "";
+  }
+}
+
+// --- Selection ---
+
+/**
+ * Creates the identity provider selected by `IDENTITY_PROVIDER`.
+ * @param env - Worker environment with the selected provider's settings.
+ * @throws IdentityProviderError when the selection is unknown or its settings are missing.
+ */
+export function createIdentityProvider(env: Env): IdentityProvider {
+  const kind = env.IDENTITY_PROVIDER || "cognito";
+  switch (kind) {
+    case "cognito":
+      return new CognitoProvider(
+        clientConfig(kind, env.COGNITO_CLIENT_ID, env.COGNITO_CLIENT_SECRET, env.UPSTREAM_SCOPES || "openid email profile"),
+        requireSettings(kind, env, ["COGNITO_DOMAIN", "COGNITO_USER_POOL_ID", "AWS_REGION"]),
+      );
+    case "github":
+      return new GitHubProvider(clientConfig(kind, env.GITHUB_CLIENT_ID, env.GITHUB_CLIENT_SECRET, env.UPSTREAM_SCOPES || "read:user user:email"));
+    case "oidc":
+      return new OidcProvider(
+        new URL(requireSettings(kind, env, ["OIDC_ISSUER"]).OIDC_ISSUER).host,
+        clientConfig(kind, env.OIDC_CLIENT_ID, env.OIDC_CLIENT_SECRET, env.UPSTREAM_SCOPES || "openid email profile"),
+        env.OIDC_ISSUER,
+      );
+    default:
+      throw new IdentityProviderError(`Unknown IDENTITY_PROVIDER "${kind}", expected cognito, github or oidc`, "misconfigured");
+  }
+}
+
+// --- Helper Functions ---
+
+function clientConfig(kind: string, clientId: string | undefined, clientSecret: string | undefined, scopes: string): ClientConfig {
+  if (!clientId || !clientSecret) throw new IdentityProviderError(`Client id and secret are required for the ${kind} provider`, "misconfigured");
+  return { clientId, clientSecret, scopes };
+}
+
+function requireSettings<K extends keyof Env>(kind: string, env: Env, keys: K[]): Pick<Env, K> {
+  const missing = keys.filter((k) => !env[k]);
+  if (missing.length) throw new IdentityProviderError(`Missing ${missing.join(", ")} for the ${kind} provider`, "misconfigured");
+  return env;
+}
+
+function buildAuthorizeUrl(
+  endpoint: string,
+  client: ClientConfig,
+  { redirectUri, state, codeChallenge }: { redirectUri: string; state: string; codeChallenge: string },
+): string {
+  const url = new URL(endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", client.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", client.scopes);
+  url.searchParams.set("state", state);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.href;
+}
+
+async function requestTokens(tokenEndpoint: string, client: ClientConfig, params: Record<string, string>): Promise<UpstreamTokens> {
+  const resp = await fetch(tokenEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({ client_id: client.clientId, client_secret: client.clientSecret, ...params }).toString(),
+  });
+
+  const body = await resp
+    .clone()
+    .json<{ access_token?: string; refresh_token?: string; id_token?: string; expires_in?: number; error?: string }>()
+    .catch(() => null);
+  // GitHub reports errors with a 200 and an `error` field
+  if (!resp.ok || !body || body.error) {
+    log.error("Upstream token request failed", { endpoint: tokenEndpoint, grantType: params.grant_type ?? "authorization_code", ...(await upstreamError(resp)) });
+    throw new IdentityProviderError("Token request to the identity provider failed", "token_request_failed");
+  }
+  if (!body.access_token) throw new IdentityProviderError("Identity provider returned no access token", "token_request_failed");
+
+  return { accessToken: body.access_token, refreshToken: body.refresh_token, idToken: body.id_token, expiresIn: body.expires_in };
+}
+
+/**
+ * Revokes a token at an RFC 7009 endpoint, authenticating with HTTP Basic.
+ */
+async function revokeToken(endpoint: string, client: ClientConfig, params: { token: string; token_type_hint?: string }): Promise<void> {
+  const resp = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Authorization: basicAuth(client) },
+    body: new URLSearchParams({ client_id: client.clientId, ...params }).toString(),
+  });
+  if (!resp.ok) {
+    log.error("Upstream revocation failed", { endpoint, ...(await upstreamError(resp)) });
+    throw new IdentityProviderError("Revocation at the identity provider failed", "revocation_failed");
+  }
+}
+
+function basicAuth(client: ClientConfig): string {
+  return `Basic ${btoa(`${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`)}`;
+}
+
+async function fetchJson<T = Record<string, unknown>>(url: string, accessToken: string, code: string): Promise<T> {
+  const resp = await fetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json", "User-Agent": "remote-mcp-server" },
+  });
+  if (!resp.ok) {
+    log.error("Upstream request failed", { url, ...(await upstreamError(resp)) });
+    throw new IdentityProviderError(`Request to ${new URL(url).host} failed (${resp.status})`, code);
+  }
+  return resp.json<T>();
+}
+
+async function discover(issuer: string): Promise<OidcEndpoints> {
+  const resp = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!resp.ok) throw new IdentityProviderError(`OIDC discovery for ${issuer} failed (${resp.status})`, "discovery_failed");
+  const doc = await resp.json<{
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+    jwks_uri: string;
+    revocation_endpoint?: string;
+    end_session_endpoint?: string;
+  }>();
+  // OpenID Connect Discovery §4.3: the document must be for the issuer it was fetched from
+  if (doc.issuer?.replace(/\/+$/, "") !== issuer) {
+    log.error("OIDC discovery issuer mismatch", { issuer, discoveredIssuer: doc.issuer });
+    throw new IdentityProviderError(`OIDC discovery for ${issuer} returned issuer ${doc.issuer}`, "discovery_failed");
+  }
+  return {
+    issuer: doc.issuer,
+    authorizationEndpoint: doc.authorization_endpoint,
+    tokenEndpoint: doc.token_endpoint,
+    userinfoEndpoint: doc.userinfo_endpoint,
+    jwksUri: doc.jwks_uri,
+    revocationEndpoint: doc.revocation_endpoint,
+    endSessionEndpoint: doc.end_session_endpoint,
+  };
+}
+
+/**
+ * Loggable summary of a failed upstream OAuth response: the status plus the
+ * standard `error` / `error_description` fields, never the raw body.
+ */
+async function upstreamError(resp: Response): Promise<LogFields> {
+  const text = await resp.text();
+  try {
+    const { error, error_description } = JSON.parse(text);
+    return { status: resp.status, error, errorDescription: error_description };
+  } catch {
+    return { status: resp.status };
+  }
+}
@@ -1,75 +1,285 @@
+import OAuthProvider, { type OAuthProviderOptions } from "@cloudflare/workers-oauth-provider";
+import { env as workerEnv } from "cloudflare:workers";
 import { McpAgent } from "agents/mcp";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ListToolsRequestSchema, type Tool } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { AdminHandler } from "./admin-handler";
+import { isApiKeyActive, verifyApiKey, type VerifiedApiKey } from "./api-keys";
+import { AuthHandler } from "./github-handler";
+import { recordGrantUse } from "./grant-activity";
+import { addLogContext, log, withRequestLogging, type LogFields } from "./logger";
+import { bearerChallenge, metadataResponse, OAUTH_ENDPOINTS, unauthorizedResponse } from "./oauth-metadata";
+import { tokenGrantIds } from "./provider-store";
+import { consumeRateLimit, rateLimitedResponse, rateLimitStatus, withRateLimitHeaders, type RateLimitTier } from "./rate-limiter";
+import { withRegisteredRedirectUri } from "./redirect-uris";
+import { ALL_SCOPES, hasScope, type Scope } from "./scopes";
+import { createTasksClient, TasksApiError, TasksClient } from "./tasks-client";
+import { tokenRefresher, withUserTokens } from "./token-refresher";
+import { isTokenNearExpiry, type Props } from "./utils";
 
 /**
- * Remote MCP Server (header‑only API‑Key)
- * --------------------------------------
- * ‣ No KV / durable storage
- * ‣ Every call must carry the key via:
+ * Remote MCP Server (API‑Key or upstream OAuth)
+ * ---------------------------------------------
+ * ‣ OAuth: MCP clients authorize via /authorize → identity provider
+ *   (Cognito, GitHub or OIDC, see identity-provider.ts) → /callback and
+ *   send the issued access token as `Authorization: Bearer <user:grant:secret>`
+ * ‣ API key: keys must be registered (hashed) in the `github_tokens` KV
+ *   registry; unknown, revoked or expired keys get a 401. Send it via:
  *      – Authorization: Bearer <key>
  *      – X‑API‑KEY: <key>
  *      – ?API_KEY=<key>
  *      – tool param `apiKey`
+ * ‣ Sessions: every MCP request must carry credentials, not just a session id.
+ *   The session's Durable Object records the OAuth user or API key that opened
+ *   it and answers requests with anyone else's credentials with a 403
+ * ‣ Discovery: a request without any credentials gets a 401 whose
+ *   WWW-Authenticate points at /.well-known/oauth-protected-resource,
+ *   which leads to /.well-known/oauth-authorization-server (see oauth-metadata.ts)
+ *
+ * Every request is logged as one JSON line (see logger.ts) with its MCP method
+ * and tool name; credentials are redacted.
+ *
+ * Requests are throttled per API key / signed-in user (token bucket + daily quota,
+ * see rate-limiter.ts); over-limit requests get a 429 with Retry-After.
+ *
+ * Precedence when a request carries both: a Bearer token shaped like an
+ * OAuth access token wins and any X‑API‑KEY / ?API_KEY is ignored. Inside a
+ * tool, an explicit `apiKey` param still overrides the session's credentials.
  */
 
-interface Env { [k: string]: unknown }
+// How long a session's API key binding lives without a request re-presenting the key
+const API_KEY_BINDING_TTL_MS = 60 * 60 * 1000 // 1 hour
 
-// Global connection-based API key storage (keyed by sessionId if present, otherwise fallback fingerprint)
-const connectionApiKeys = new Map<string, { apiKey: string, lastUsed: number }>();
+// A key that passed registry verification, with its owner / scopes
+type ResolvedKey = VerifiedApiKey & { apiKey: string }
 
-// Allow up to 12k live connections before we start evicting oldest entries
-const MAX_CONNECTIONS = 12000;
+// Session → API key binding, persisted in the session's own Durable Object storage
+type ApiKeyBinding = ResolvedKey & { expiresAt: number }
 
-// Store current request's API key for access during tool execution
-let currentRequestApiKey: string | null = null;
+// Who opened an MCP session, recorded in the session's Durable Object
+type SessionAuth = { kind: "oauth", sub: string } | { kind: "api_key", hash: string }
+
+// Scope each tool requires; tools not listed (diagnostics) are open to every session
+const TOOL_SCOPES: Record<string, Scope> = {
+  list_todos: "todos:read",
+  get_todo: "todos:read",
+  add_todo: "todos:write",
+  update_todo: "todos:write",
+  complete_todo: "todos:write",
+  delete_todo: "todos:write",
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Result helpers shared by the todo tools
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** summary line for the model + the raw JSON so it can reason over fields */
+function result(summary: string, data: unknown) {
+  return {
+    content: [
+      { type: "text" as const, text: summary },
+      { type: "text" as const, text: JSON.stringify(data, null, 2) },
+    ],
+  }
+}
+
+/** map client errors to a structured tool error; anything else is rethrown */
+function failed(err: unknown) {
+  if (!(err instanceof TasksApiError)) throw err
+  log.warn("Tasks API call failed", { errorCode: err.code, status: err.status, error: err })
+  return {
+    content: [
+      { type: "text" as const, text: err.status ? `❌ ${err.status}: ${err.message}` : `❌ ${err.message}` },
+      { type: "text" as const, text: JSON.stringify({ error: err.code, status: err.status, message: err.message }, null, 2) },
+    ],
+    isError: true,
+  }
+}
+
+function insufficientScope(tool: string, required: Scope, granted: string[]) {
+  return {
+    content: [
+      { type: "text" as const, text: `❌ ${tool} requires the "${required}" scope, which this session was not granted.` },
+      { type: "text" as const, text: JSON.stringify({ error: "insufficient_scope", tool, required_scope: required, granted_scopes: granted }, null, 2) },
+    ],
+    isError: true,
+  }
+}
+
+function noKey() {
+  return {
+    content: [{
+      type: "text" as const,
+      text: `❌ No valid API key or OAuth session available. Please provide a registered apiKey parameter, ensure your MCP client sends x-api-key header, or sign in via OAuth.`
+    }],
+    isError: true,
+  }
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Props available per request, injected via ctx.props in outer Worker
-type RequestProps = { apiKey?: string }
+// Props injected via ctx.props by the OAuth provider for OAuth sessions;
+// API-key sessions carry none and use the durable key binding instead
+type RequestProps = Partial<Props>
 
 export class MyMCPv2 extends McpAgent<Env, {}, RequestProps> {
   server = new McpServer({ name: "Todo Server", version: "2.0.0" })
 
-  /** resolve key: param → injected header → global variable → none */
-  private key(provided?: string): string | null {
+  // every registered tool, so tools/list can leave out the ones a session's scopes don't cover
+  private tools = new Map<string, RegisteredTool>()
+
+  /**
+   * Record who opened this MCP session (called by the outer Worker over RPC,
+   * before the agent sees the session's first request) and bind their API key.
+   */
+  async openSession(sessionId: string, auth: SessionAuth, key?: ResolvedKey): Promise<void> {
+    await this.ctx.storage.put({ sessionId, [`auth:${sessionId}`]: auth })
+    if (key) await this.bindApiKey(sessionId, key)
+  }
+
+  /**
+   * Check a request against whoever opened this session; a session nobody opened
+   * through openSession is refused. On success the request's API key is bound.
+   */
+  async authorize(sessionId: string, auth: SessionAuth, key?: ResolvedKey): Promise<boolean> {
+    const opened = await this.ctx.storage.get<SessionAuth>(`auth:${sessionId}`)
+    if (!opened || !sameAuth(opened, auth)) return false
+    if (key) await this.bindApiKey(sessionId, key)
+    return true
+  }
+
+  /**
+   * Bind the key the Worker just verified, so tools use it without another registry lookup.
+   * Every request that presents the key again slides the binding's expiry forward.
+   */
+  private async bindApiKey(sessionId: string, key: ResolvedKey): Promise<void> {
+    const binding: ApiKeyBinding = { ...key, expiresAt: Date.now() + API_KEY_BINDING_TTL_MS }
+    await this.ctx.storage.put(`apiKey:${sessionId}`, binding)
+  }
+
+  /** Drop the session's API key binding, e.g. when the client terminates the session */
+  async invalidateApiKey(sessionId: string): Promise<void> {
+    await this.ctx.storage.delete(`apiKey:${sessionId}`)
+  }
+
+  /**
+   * resolve key: param → durable session binding → none.
+   * A param is checked against the registry; the binding was verified by the Worker
+   * for the request being served, since every request has to present the key.
+   */
+  private async key(provided?: string): Promise<ResolvedKey | null> {
     // 1) explicit param
-    if (provided) return provided
+    if (provided) {
+      const verified = await verifyApiKey(this.env.github_tokens, provided)
+      return verified ? { ...verified, apiKey: provided } : null
+    }
 
-    // 2) per-request props injected via ctx.props
-    const fromProps = (this as any).props?.apiKey as string | undefined
-    if (fromProps) return fromProps
+    // 2) key bound to this session by the outer Worker
+    const sessionId = await this.ctx.storage.get<string>("sessionId")
+    if (!sessionId) return null
 
-    // 3) (fallback) global variable – only works when same isolate (dev)
-    if (currentRequestApiKey) return currentRequestApiKey
+    const binding = await this.ctx.storage.get<ApiKeyBinding>(`apiKey:${sessionId}`)
+    if (!binding) return null
+    if (binding.expiresAt <= Date.now() || !isApiKeyActive(binding.record)) {
+      await this.invalidateApiKey(sessionId)
+      return null
+    }
+    const { expiresAt, ...key } = binding
+    return key
+  }
+
+  /** scopes of the resolved key, else of the OAuth session (grants from before scopes existed get all) */
+  private scopes(key: ResolvedKey | null): string[] {
+    if (key) return key.record.scopes
+    if (this.props?.sub) return this.props.scopes ?? ALL_SCOPES
+    return []
+  }
+
+  /** who this session's usage is counted against: the API key, else the signed-in user */
+  private async rateLimitSubject(): Promise<{ subject: string, tier?: RateLimitTier } | null> {
+    const key = await this.key()
+    if (key) return { subject: `key:${key.hash}`, tier: key.record.tier }
+    if (this.props?.sub) return { subject: `user:${this.props.sub}` }
+    return null
+  }
+
+  /**
+   * the OAuth session's upstream access token. Near expiry, the user's TokenRefresher
+   * hands back newer tokens (refreshing them if no other session already has), and
+   * this session keeps them for its next calls.
+   */
+  private async accessToken(): Promise<string | undefined> {
+    const props = this.props
+    if (!props?.sub || !props.accessToken || !isTokenNearExpiry(props.tokenExpiresAt ?? 0)) return props?.accessToken
+
+    const latest = await tokenRefresher(this.env, props.sub).fresh(props as Props)
+    if (latest.tokenIssuedAt !== props.tokenIssuedAt) {
+      this.props = withUserTokens(props, latest)
+      await this.ctx.storage.put("props", this.props)
+    }
+    return this.props.accessToken
+  }
+
+  /** tasks backend client: API key first, then the OAuth session's upstream access token */
+  private async tasks(key: ResolvedKey | null): Promise<TasksClient | null> {
+    if (key) return createTasksClient(this.env, { apiKey: key.apiKey })
+
+    const accessToken = await this.accessToken()
+    if (accessToken) return createTasksClient(this.env, { accessToken })
 
     return null
   }
 
   async init() {
     // diagnose
-    this.server.tool(
+    this.tools.set("diagnose_api_key", this.server.tool(
       "diagnose_api_key",
       "Show if an API‑Key is present in this request.",
       {},
       async () => {
-        const apiKey = this.key()
-        
+        const key = await this.key()
+        const oauthUser = this.props?.sub ? this.props.email || this.props.sub : null
+        const scopes = this.scopes(key).join(", ") || "none"
+
         return {
           content: [
             {
               type: "text",
-              text: apiKey 
-                ? `✅ API‑Key: ${apiKey.slice(0, 8)}… (from injected header)` 
-                : `❌ No API‑Key found. CurrentRequestApiKey: ${currentRequestApiKey}`,
+              text: key 
+                ? `✅ API‑Key: ${key.apiKey.slice(0, 8)}… (bound to this session, scopes: ${scopes})` 
+                : oauthUser
+                  ? `✅ OAuth session for ${oauthUser} (scopes: ${scopes})`
+                  : `❌ No API‑Key found for this session.`,
             },
           ],
         }
       }
-    )
+    ))
+
+    // quota
+    this.tools.set("get_quota", this.server.tool(
+      "get_quota",
+      "Show this session's rate limit and remaining daily request quota.",
+      {},
+      async () => {
+        const caller = await this.rateLimitSubject()
+        if (!caller) return noKey()
+
+        const status = await rateLimitStatus(this.env, caller.subject, caller.tier)
+        const { quota } = status
+        const summary = quota.limit === null
+          ? `✅ ${quota.used} request(s) today, no daily cap`
+          : `✅ ${quota.used}/${quota.limit} request(s) used today, ${quota.remaining} left`
+        return result(summary, {
+          daily_quota: quota,
+          burst: { limit: status.limit, remaining: status.remaining, reset_seconds: status.reset },
+        })
+      }
+    ))
 
     // add todo
-    this.server.tool(
+    this.tools.set("add_todo", this.server.tool(
       "add_todo",
       "Create a todo item (title + optional note).",
       {
@@ -78,80 +288,375 @@ export class MyMCPv2 extends McpAgent<Env, {}, RequestProps> {
         apiKey: z.string().optional(),
       },
       async ({ title, note, apiKey }) => {
-        const key = this.key(apiKey)
-        
-        if (!key)
-          return {
-            content: [{ 
-              type: "text", 
-              text: `❌ No API key available. Please provide apiKey parameter or ensure your MCP client sends x-api-key header.` 
-            }],
-          }
-
-        const payload = { title, note: note ?? "", date: new Date().toISOString() }
-        const res = await fetch(
-          "https://xbc070isy8.execute-api.us-west-2.amazonaws.com/tasks",
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "x-api-key": key,
-            },
-            body: JSON.stringify(payload),
-          }
-        )
-
-        if (!res.ok)
-          return {
-            content: [
-              { type: "text", text: `❌ ${res.status}: ${await res.text()}` },
-            ],
-          }
-
-        return { content: [{ type: "text", text: `✅ Todo created: "${title}"` }] }
+        const key = await this.key(apiKey)
+        const denied = this.deniedScope("add_todo", key)
+        if (denied) return denied
+
+        const tasks = await this.tasks(key)
+        if (!tasks) return noKey()
+
+        try {
+          const task = await tasks.create({ title, note })
+          return result(`✅ Todo created: "${title}"`, task)
+        } catch (err) {
+          return failed(err)
+        }
+      }
+    ))
+
+    // list todos
+    this.tools.set("list_todos", this.server.tool(
+      "list_todos",
+      "List todo items, optionally only open or completed ones.",
+      {
+        status: z.enum(["all", "open", "completed"]).optional(),
+        apiKey: z.string().optional(),
+      },
+      async ({ status, apiKey }) => {
+        const key = await this.key(apiKey)
+        const denied = this.deniedScope("list_todos", key)
+        if (denied) return denied
+
+        const tasks = await this.tasks(key)
+        if (!tasks) return noKey()
+
+        try {
+          const todos = (await tasks.list()).filter((t) =>
+            status === "open" ? !t.completed : status === "completed" ? !!t.completed : true
+          )
+          return result(`✅ ${todos.length} todo(s)`, todos)
+        } catch (err) {
+          return failed(err)
+        }
+      }
+    ))
+
+    // get todo
+    this.tools.set("get_todo", this.server.tool(
+      "get_todo",
+      "Fetch a single todo item by id.",
+      {
+        id: z.string(),
+        apiKey: z.string().optional(),
+      },
+      async ({ id, apiKey }) => {
+        const key = await this.key(apiKey)
+        const denied = this.deniedScope("get_todo", key)
+        if (denied) return denied
+
+        const tasks = await this.tasks(key)
+        if (!tasks) return noKey()
+
+        try {
+          return result(`✅ Todo ${id}`, await tasks.get(id))
+        } catch (err) {
+          return failed(err)
+        }
+      }
+    ))
+
+    // update todo
+    this.tools.set("update_todo", this.server.tool(
+      "update_todo",
+      "Update the title, note or completion state of a todo item.",
+      {
+        id: z.string(),
+        title: z.string().optional(),
+        note: z.string().optional(),
+        completed: z.boolean().optional(),
+        apiKey: z.string().optional(),
+      },
+      async ({ id, title, note, completed, apiKey }) => {
+        const key = await this.key(apiKey)
+        const denied = this.deniedScope("update_todo", key)
+        if (denied) return denied
+
+        const tasks = await this.tasks(key)
+        if (!tasks) return noKey()
+
+        try {
+          return result(`✅ Todo ${id} updated`, await tasks.update(id, { title, note, completed }))
+        } catch (err) {
+          return failed(err)
+        }
+      }
+    ))
+
+    // complete todo
+    this.tools.set("complete_todo", this.server.tool(
+      "complete_todo",
+      "Mark a todo item as completed.",
+      {
+        id: z.string(),
+        apiKey: z.string().optional(),
+      },
+      async ({ id, apiKey }) => {
+        const key = await this.key(apiKey)
+        const denied = this.deniedScope("complete_todo", key)
+        if (denied) return denied
+
+        const tasks = await this.tasks(key)
+        if (!tasks) return noKey()
+
+        try {
+          return result(`✅ Todo ${id} completed`, await tasks.update(id, { completed: true }))
+        } catch (err) {
+          return failed(err)
+        }
       }
-    )
+    ))
+
+    // delete todo
+    this.tools.set("delete_todo", this.server.tool(
+      "delete_todo",
+      "Delete a todo item by id.",
+      {
+        id: z.string(),
+        apiKey: z.string().optional(),
+      },
+      async ({ id, apiKey }) => {
+        const key = await this.key(apiKey)
+        const denied = this.deniedScope("delete_todo", key)
+        if (denied) return denied
+
+        const tasks = await this.tasks(key)
+        if (!tasks) return noKey()
+
+        try {
+          await tasks.delete(id)
+          return result(`✅ Todo ${id} deleted`, { id, deleted: true })
+        } catch (err) {
+          return failed(err)
+        }
+      }
+    ))
+
+    this.listToolsInScope()
+  }
+
+  /**
+   * Replace McpServer's tools/list with one that leaves out tools the session's scopes don't cover.
+   * Those tools stay registered: a call with an `apiKey` param whose scopes cover the tool works,
+   * and any other call reaches the handler and gets an insufficient_scope result from deniedScope.
+   */
+  private listToolsInScope() {
+    this.server.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const granted = this.scopes(await this.key())
+      const tools: Tool[] = [...this.tools]
+        .filter(([name]) => !TOOL_SCOPES[name] || hasScope(granted, TOOL_SCOPES[name]))
+        .map(([name, tool]) => ({
+          name,
+          description: tool.description,
+          // same JSON Schema McpServer's own tools/list would send
+          inputSchema: (tool.inputSchema ? zodToJsonSchema(tool.inputSchema, { strictUnions: true }) : { type: "object" }) as Tool["inputSchema"],
+          annotations: tool.annotations,
+        }))
+      return { tools }
+    })
+  }
+
+  /** structured permission error if the caller's scopes don't cover the tool, e.g. for an explicit `apiKey` param */
+  private deniedScope(tool: string, key: ResolvedKey | null) {
+    const required = TOOL_SCOPES[tool]
+    const granted = this.scopes(key)
+    if (hasScope(granted, required)) return null
+    log.warn("Tool call denied", { tool, requiredScope: required, grantedScopes: granted })
+    return insufficientScope(tool, required, granted)
   }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Worker level - extract and store API keys globally, mount MCP at /sse
+// MCP transports - legacy SSE at /sse, Streamable HTTP at /mcp, same agent
+// ─────────────────────────────────────────────────────────────────────────────
+const mcpHandlers = {
+  "/sse": MyMCPv2.serveSSE("/sse"),
+  "/mcp": MyMCPv2.serve("/mcp"),
+}
+
+type McpRoute = keyof typeof mcpHandlers
+
+/** which transport serves this path (`/sse`, `/sse/message`, `/mcp`), if any */
+function mcpRoute(pathname: string): McpRoute | null {
+  for (const route of Object.keys(mcpHandlers) as McpRoute[]) {
+    if (pathname === route || pathname.startsWith(`${route}/`)) return route
+  }
+  return null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OAuth provider - validates OAuth access tokens on the MCP routes and serves
+// the auth handler (/authorize, /callback, …) plus /token for everything else
+// ─────────────────────────────────────────────────────────────────────────────
+// The provider's option types come from @cloudflare/workers-types, whose Request / Headers lag
+// behind the runtime types in worker-configuration.d.ts that the handlers here are written against
+type ProviderHandler = NonNullable<OAuthProviderOptions["apiHandler"]>
+type ProviderResponse = Awaited<ReturnType<Extract<ProviderHandler, { fetch: unknown }>["fetch"]>>
+
+/** a handler written against the runtime types */
+interface RuntimeHandler {
+  fetch(req: Request, env: Env, ctx: ExecutionContext): Promise<Response> | Response
+}
+
+/** hand a handler written against the runtime types to the provider - the one place the two meet */
+function providerHandler(handler: RuntimeHandler): ProviderHandler {
+  return {
+    fetch: async (req, env, ctx) => (await handler.fetch(req as Request, env as Env, ctx)) as ProviderResponse,
+  }
+}
+
+// The provider has validated the token by the time these run, so Props.sub identifies the user
+type OAuthExecutionContext = ExecutionContext & { props: Props }
+
+const oauthApiHandlers = Object.fromEntries(
+  (Object.keys(mcpHandlers) as McpRoute[]).map((route) => [route, providerHandler({
+    async fetch(req: Request, env: Env, ctx: OAuthExecutionContext): Promise<Response> {
+      const { sub } = ctx.props
+      addLogContext({ sub })
+      // last use, for /account/connections
+      ctx.waitUntil(recordGrantUse(env.OAUTH_KV, req.headers.get("authorization")!.slice(7)))
+      return serveSession(req, env, ctx, route, { kind: "oauth", sub })
+    },
+  })])
+)
+
+const oauthProvider = new OAuthProvider({
+  apiHandlers: oauthApiHandlers,
+  defaultHandler: providerHandler(AuthHandler),
+  authorizeEndpoint: OAUTH_ENDPOINTS.authorization,
+  tokenEndpoint: OAUTH_ENDPOINTS.token,
+  scopesSupported: ALL_SCOPES,
+  // Keep each grant's copy of the upstream tokens current: token exchanges pick up the
+  // user's newest tokens (refreshed first if near expiry) from their TokenRefresher
+  tokenExchangeCallback: async ({ props }) => {
+    const latest = await tokenRefresher(workerEnv, props.sub).fresh(props)
+    return { newProps: withUserTokens(props, latest) }
+  },
+})
+
+/** session Durable Object – names mirror the ones agents/mcp's serveSSE / serve use */
+function sessionStub(env: Env, route: McpRoute, sessionId: string) {
+  const name = route === "/sse" ? `sse:${sessionId}` : `streamable-http:${sessionId}`
+  return env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(name))
+}
+
+/** the fields of a JSON-RPC message the request log reads - the body is client input, so none are guaranteed */
+interface JsonRpcCall {
+  method?: unknown
+  params?: { name?: unknown }
+}
+
+/** JSON-RPC method(s) of an MCP POST and, for tools/call, the tool name(s) - for the request log */
+async function mcpCallInfo(req: Request): Promise<LogFields> {
+  if (req.method !== "POST") return {}
+  try {
+    const body = await req.clone().json<JsonRpcCall | JsonRpcCall[] | null>()
+    const messages = Array.isArray(body) ? body : [body]
+    const methods = messages.map((m) => m?.method).filter((method) => typeof method === "string")
+    const tools = messages.filter((m) => m?.method === "tools/call").map((m) => m?.params?.name)
+    return { mcpMethod: methods.join(",") || undefined, tool: tools.join(",") || undefined }
+  } catch {
+    return {}
+  }
+}
+
+function sameAuth(a: SessionAuth, b: SessionAuth): boolean {
+  return a.kind === "oauth" ? b.kind === "oauth" && a.sub === b.sub : b.kind === "api_key" && a.hash === b.hash
+}
+
+/**
+ * Hand an authenticated request to its MCP transport. Every request is charged to the
+ * API key or user in `auth`; new sessions are opened for `auth`, and requests to an
+ * existing session must come from whoever opened it.
+ */
+async function serveSession(req: Request, env: Env, ctx: ExecutionContext, route: McpRoute, auth: SessionAuth, key?: ResolvedKey): Promise<Response> {
+  const url = new URL(req.url)
+  // MCP sessionId: SSE `?sessionId=` or Streamable HTTP `Mcp-Session-Id` header
+  let sessionId = url.searchParams.get("sessionId") ?? req.headers.get("mcp-session-id")
+
+  const limit = await consumeRateLimit(env, auth.kind === "oauth" ? `user:${auth.sub}` : `key:${auth.hash}`, key?.record.tier)
+  if (!limit.allowed) {
+    log.warn("Rate limited", { auth: auth.kind, retryAfter: limit.retryAfter })
+    return rateLimitedResponse(limit)
+  }
+
+  if (!sessionId && route === "/sse" && req.method === "GET") {
+    // New SSE stream: pin the sessionId up front so the session is opened before the agent starts
+    sessionId = env.MCP_OBJECT.newUniqueId().toString()
+    url.searchParams.set("sessionId", sessionId)
+    req = new Request(url, req)
+    await sessionStub(env, route, sessionId).openSession(sessionId, auth, key)
+  } else if (sessionId) {
+    const session = sessionStub(env, route, sessionId)
+    if (!(await session.authorize(sessionId, auth, key))) {
+      log.warn("Session credentials mismatch", { path: url.pathname, auth: auth.kind })
+      return Response.json(
+        { error: "forbidden", error_description: "This MCP session was opened with different credentials" },
+        { status: 403 },
+      )
+    }
+    if (req.method === "DELETE") await session.invalidateApiKey(sessionId)
+  }
+
+  const res = await mcpHandlers[route].fetch(req, env, ctx)
+
+  // New Streamable HTTP session: the agent assigns the id in its response
+  const assigned = res.headers.get("mcp-session-id")
+  if (!sessionId && assigned) await sessionStub(env, route, assigned).openSession(assigned, auth, key)
+
+  return withRateLimitHeaders(res, limit)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Worker level - route OAuth sessions through the provider, bind API keys to
+// their MCP session's Durable Object, mount MCP at /sse and /mcp
 // ─────────────────────────────────────────────────────────────────────────────
 class ApiKeyWorker {
+  private bearer(req: Request): string | null {
+    const auth = req.headers.get("authorization")
+    return auth?.startsWith("Bearer ") ? auth.slice(7) : null
+  }
+
   private extract(req: Request): string | null {
     const h = req.headers
-    const auth = h.get("authorization")
-    if (auth?.startsWith("Bearer ")) return auth.slice(7)
+    const bearer = this.bearer(req)
+    if (bearer) return bearer
     const x = h.get("x-api-key") ?? h.get("X-API-KEY")
     if (x) return x
     const url = new URL(req.url)
     return url.searchParams.get("API_KEY") ?? url.searchParams.get("api_key")
   }
 
-  private getConnectionFingerprint(req: Request): string {
-    const userAgent = req.headers.get('user-agent') || 'unknown'
-    const forwarded = req.headers.get('cf-connecting-ip') || req.headers.get('x-forwarded-for') || 'unknown'
-    const fingerprint = btoa(`${userAgent}-${forwarded}`).slice(0, 16)
-    return fingerprint
+  private cors = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET,POST,DELETE,OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, X-API-KEY, Content-Type, Mcp-Session-Id",
+    "Access-Control-Expose-Headers": "Mcp-Session-Id, WWW-Authenticate, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After",
+    "Access-Control-Max-Age": "86400",
   }
 
-  /** Prefer sessionId (from Claude Desktop) for connection grouping; fallback to fingerprint */
-  private getConnectionKey(req: Request, url: URL): string {
-    const sid = url.searchParams.get('sessionId')
-    if (sid) return sid
-    return this.getConnectionFingerprint(req)
+  private withCors(res: Response): Response {
+    const hdr = new Headers(res.headers)
+    for (const [k, v] of Object.entries(this.cors)) hdr.set(k, v)
+    return new Response(res.body, { status: res.status, headers: hdr })
   }
 
-  private cors = {
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
-    "Access-Control-Allow-Headers": "Authorization, X-API-KEY, Content-Type",
-    "Access-Control-Max-Age": "86400",
+  /** one log line per request: method, path, status, timing and whatever the handler added */
+  fetch(req: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return withRequestLogging(req, async () => {
+      const started = Date.now()
+      const { pathname } = new URL(req.url)
+      try {
+        const res = await this.handle(req, env, ctx)
+        log.info("Request handled", { method: req.method, path: pathname, status: res.status, durationMs: Date.now() - started })
+        return res
+      } catch (error) {
+        log.error("Request failed", { method: req.method, path: pathname, durationMs: Date.now() - started, error })
+        throw error
+      }
+    })
   }
 
-  async fetch(req: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    console.log(`Request: ${req.method} ${req.url}`)
-    
+  private async handle(req: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     // CORS preflight
     if (req.method === "OPTIONS") return new Response(null, { status: 204, headers: this.cors })
 
@@ -161,49 +666,54 @@ class ApiKeyWorker {
     // root → /sse convenience redirect
     if (pathname === "/") return Response.redirect("/sse", 302)
 
-    // Extract API key and derive connection key (sessionId preferred)
-    const apiKey = this.extract(req)
-    const connKey = this.getConnectionKey(req, url)
-
-    console.log(`ConnKey: ${connKey}, HasApiKey: ${!!apiKey}, Path: ${pathname}`)
-
-    // Store API key for this connection when we first see it
-    if (apiKey) {
-      console.log(`Storing API key for connection ${connKey}: ${apiKey.slice(0, 8)}...`)
-      connectionApiKeys.set(connKey, { apiKey, lastUsed: Date.now() })
-
-      // Evict stale entries if we exceed MAX_CONNECTIONS or older than 1 hour
-      if (connectionApiKeys.size > MAX_CONNECTIONS) {
-        const cutoff = Date.now() - 60 * 60 * 1000 // 1 hour ago
-        for (const [key, value] of connectionApiKeys.entries()) {
-          if (value.lastUsed < cutoff) {
-            connectionApiKeys.delete(key)
-          }
-        }
-      }
-    }
+    // API key management, authenticated with ADMIN_API_TOKEN
+    if (pathname.startsWith("/admin/")) return AdminHandler.fetch(req, env, ctx)
 
-    // Get stored API key for this connection
-    const storedConnection = connectionApiKeys.get(connKey)
-    const effectiveApiKey = apiKey || storedConnection?.apiKey || null
+    // OAuth discovery documents, generated here rather than by the provider so they list /register
+    const metadata = metadataResponse(pathname, url.origin)
+    if (metadata) return this.withCors(metadata)
 
-    console.log(`EffectiveApiKey: ${effectiveApiKey ? effectiveApiKey.slice(0, 8) + '...' : 'none'}, ConnectionKeys: ${connectionApiKeys.size}`)
+    // 1) OAuth access token → provider validates it and injects Props as ctx.props
+    const route = mcpRoute(pathname)
+    if (route) addLogContext(await mcpCallInfo(req))
 
-    // Set global variable for tool access
-    currentRequestApiKey = effectiveApiKey
+    const bearer = this.bearer(req)
+    if (bearer && tokenGrantIds(bearer)) {
+      addLogContext({ auth: "oauth" })
+      const res = this.withCors(await oauthProvider.fetch(req, env, ctx))
+      // expired / revoked token: point the client back at discovery so it can re-authorize
+      if (res.status === 401) res.headers.set("WWW-Authenticate", bearerChallenge(url.origin, "invalid_token"))
+      return res
+    }
+
+    // OAuth endpoints (/authorize, /callback, /token, /register, …) → provider
+    if (!route) {
+      // native apps may redeem a code for a loopback redirect URI on any port (RFC 8252 §7.3)
+      if (pathname === OAUTH_ENDPOINTS.token && req.method === "POST") req = await withRegisteredRedirectUri(req, env.OAUTH_KV)
+      return oauthProvider.fetch(req, env, ctx)
+    }
 
-    try {
-      const handler = MyMCPv2.serveSSE("/sse")
-      if (effectiveApiKey) (ctx as any).props = { apiKey: effectiveApiKey };
-      const res = await handler.fetch(req, env, ctx)
+    // 2) API key - required on every request, a session id alone grants nothing
+    const apiKey = this.extract(req)
+    if (!apiKey) {
+      // challenge so the client can discover OAuth
+      log.info("Unauthenticated request challenged", { path: pathname })
+      return this.withCors(unauthorizedResponse(url.origin))
+    }
 
-      const hdr = new Headers(res.headers)
-      for (const [k, v] of Object.entries(this.cors)) hdr.set(k, v)
-      return new Response(res.body, { status: res.status, headers: hdr })
-    } finally {
-      // Clean up global variable after request
-      currentRequestApiKey = null
+    const verified = await verifyApiKey(env.github_tokens, apiKey)
+    if (!verified) {
+      log.warn("Rejected API key", { path: pathname })
+      return this.withCors(Response.json(
+        { error: "invalid_api_key", error_description: "Unknown, revoked or expired API key" },
+        { status: 401, headers: { "WWW-Authenticate": bearerChallenge(url.origin, "invalid_token") } },
+      ))
     }
+
+    addLogContext({ auth: "api_key", keyOwner: verified.record.owner })
+
+    const res = await serveSession(req, env, ctx, route, { kind: "api_key", hash: verified.hash }, { ...verified, apiKey })
+    return this.withCors(res)
   }
 }
 
@@ -211,3 +721,6 @@ export default new ApiKeyWorker()
 
 // Alias old class name so existing Durable Object instances can continue until migration
 export { MyMCPv2 as MyMCP };
+
+export { RateLimiter } from "./rate-limiter";
+export { TokenRefresher } from "./token-refresher";
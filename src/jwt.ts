@@ -0,0 +1,214 @@
+import { log } from "./logger";
+
+/**
+ * RS256 JWT verification against a JSON Web Key Set.
+ *
+ * Signing keys are fetched from the issuer's JWKS endpoint and cached per URL.
+ * A token signed with a key id we have not seen triggers a refetch (rate
+ * limited), so upstream key rotation is picked up without a deploy.
+ */
+
+// How long a fetched key set is trusted before it is refetched
+const JWKS_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Minimum gap between refetches triggered by an unknown `kid`
+const JWKS_MIN_REFETCH_MS = 60 * 1000; // 1 minute
+
+// Leeway for clock differences when checking `exp`, `nbf` and `iat`
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Claims we read from Cognito tokens. Other claims are kept as-is.
+ */
+export interface JwtClaims {
+  iss: string;
+  sub: string;
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  aud?: string | string[];
+  client_id?: string;
+  token_use?: "id" | "access";
+  email?: string;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  /** URL of the issuer's JSON Web Key Set */
+  jwksUrl: string;
+  /** Expected `iss` claim */
+  issuer: string;
+  /** Expected audience: `aud` for ID tokens, `client_id` for Cognito access tokens */
+  audience: string;
+  /** Expected `token_use` claim (Cognito), if any */
+  tokenUse?: "id" | "access";
+  /**
+   * Leeway in seconds for `exp`, `nbf` and `iat`
+   * @default 60
+   */
+  clockSkewSeconds?: number;
+  /** Override for fetch, mainly for local stub JWKS endpoints */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A token failed verification. `reason` says which check failed.
+ */
+export class JwtVerificationError extends Error {
+  constructor(
+    message: string,
+    /** Machine-readable reason, e.g. `bad_signature`, `expired`, `wrong_issuer` */
+    public readonly reason: string,
+  ) {
+    super(message);
+    this.name = "JwtVerificationError";
+  }
+}
+
+interface CachedKeySet {
+  keys: Map<string, CryptoKey>;
+  fetchedAt: number;
+}
+
+const keySets = new Map<string, CachedKeySet>();
+
+/**
+ * Verifies a JWT's RS256 signature against the JWKS and validates its claims.
+ * @param token - The compact-serialized JWT.
+ * @param options - Where to find the keys and which claims to expect.
+ * @returns The verified claims.
+ * @throws JwtVerificationError when the token is malformed, unsigned by a known key or fails a claim check.
+ */
+export async function verifyJwt(token: string, options: JwtVerifyOptions): Promise<JwtClaims> {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtVerificationError("Invalid JWT format", "malformed");
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+  if (header.alg !== "RS256") throw new JwtVerificationError(`Unsupported JWT algorithm: ${header.alg}`, "unsupported_alg");
+  if (!header.kid) throw new JwtVerificationError("JWT header has no kid", "malformed");
+
+  const signature = decodeSignature(encodedSignature);
+  const key = await signingKey(header.kid, options);
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    signature,
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+  );
+  if (!valid) throw new JwtVerificationError("JWT signature verification failed", "bad_signature");
+
+  const claims = decodeSegment<JwtClaims>(encodedPayload);
+  validateClaims(claims, options);
+  return claims;
+}
+
+/**
+ * Issuer and JWKS location of a Cognito user pool.
+ * @param env - Worker environment carrying AWS_REGION and COGNITO_USER_POOL_ID.
+ */
+export function cognitoIssuer(env: Pick<Env, "AWS_REGION" | "COGNITO_USER_POOL_ID">): { issuer: string; jwksUrl: string } {
+  const issuer = `https://cognito-idp.${env.AWS_REGION}.amazonaws.com/${env.COGNITO_USER_POOL_ID}`;
+  return { issuer, jwksUrl: `${issuer}/.well-known/jwks.json` };
+}
+
+/**
+ * Reads a JWT's payload WITHOUT verifying it. Only for tokens we just received
+ * from the issuer's token endpoint, e.g. to read an access token's `exp`.
+ * @param token - The compact-serialized JWT.
+ * @returns The claims, or null if the token is not a JWT.
+ */
+export function decodeJwtPayload(token: string): Partial<JwtClaims> | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    return decodeSegment<Partial<JwtClaims>>(parts[1]);
+  } catch {
+    return null;
+  }
+}
+
+// --- Helper Functions ---
+
+async function signingKey(kid: string, options: JwtVerifyOptions): Promise<CryptoKey> {
+  const now = Date.now();
+  let cached = keySets.get(options.jwksUrl);
+
+  const stale = !cached || now - cached.fetchedAt > JWKS_TTL_MS;
+  const unknownKid = cached && !cached.keys.has(kid) && now - cached.fetchedAt > JWKS_MIN_REFETCH_MS;
+  if (stale || unknownKid) {
+    cached = await fetchKeySet(options);
+    keySets.set(options.jwksUrl, cached);
+  }
+
+  const key = cached!.keys.get(kid);
+  if (!key) throw new JwtVerificationError(`No signing key matches kid ${kid}`, "unknown_kid");
+  return key;
+}
+
+async function fetchKeySet(options: JwtVerifyOptions): Promise<CachedKeySet> {
+  const fetcher = options.fetch ?? fetch;
+  const resp = await fetcher(options.jwksUrl).catch((e) => {
+    throw new JwtVerificationError(`Failed to fetch JWKS: ${e instanceof Error ? e.message : String(e)}`, "jwks_unavailable");
+  });
+  if (!resp.ok) {
+    log.error("JWKS fetch failed", { jwksUrl: options.jwksUrl, status: resp.status });
+    throw new JwtVerificationError(`Failed to fetch JWKS (${resp.status})`, "jwks_unavailable");
+  }
+
+  const { keys = [] } = (await resp.json()) as { keys?: (JsonWebKey & { kid?: string; use?: string })[] };
+  const imported = new Map<string, CryptoKey>();
+  for (const jwk of keys) {
+    if (!jwk.kid || jwk.kty !== "RSA" || (jwk.use && jwk.use !== "sig")) continue;
+    // One unusable key must not take the rest of the set down with it
+    try {
+      imported.set(jwk.kid, await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"]));
+    } catch (error) {
+      log.warn("Skipping unusable JWKS key", { jwksUrl: options.jwksUrl, kid: jwk.kid, error });
+    }
+  }
+
+  log.info("JWKS refreshed", { jwksUrl: options.jwksUrl, keys: imported.size });
+  return { keys: imported, fetchedAt: Date.now() };
+}
+
+function validateClaims(claims: JwtClaims, options: JwtVerifyOptions): void {
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+
+  if (claims.iss !== options.issuer) throw new JwtVerificationError(`Unexpected issuer: ${claims.iss}`, "wrong_issuer");
+  if (typeof claims.exp !== "number" || claims.exp + skew <= now) throw new JwtVerificationError("JWT has expired", "expired");
+  if (typeof claims.nbf === "number" && claims.nbf - skew > now) throw new JwtVerificationError("JWT is not valid yet", "not_yet_valid");
+  if (typeof claims.iat === "number" && claims.iat - skew > now) throw new JwtVerificationError("JWT was issued in the future", "not_yet_valid");
+
+  if (options.tokenUse && claims.token_use !== options.tokenUse) {
+    throw new JwtVerificationError(`Expected a ${options.tokenUse} token, got ${claims.token_use}`, "wrong_token_use");
+  }
+
+  // Cognito access tokens carry the app client in `client_id` rather than `aud`
+  const audiences = claims.token_use === "access" ? [claims.client_id] : Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.audience)) throw new JwtVerificationError("JWT was issued for a different client", "wrong_audience");
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch {
+    throw new JwtVerificationError("Invalid JWT encoding", "malformed");
+  }
+}
+
+function decodeSignature(segment: string): Uint8Array {
+  try {
+    return base64UrlDecode(segment);
+  } catch {
+    throw new JwtVerificationError("Invalid JWT signature encoding", "malformed");
+  }
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
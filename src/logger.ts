@@ -0,0 +1,100 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { env } from "cloudflare:workers";
+
+/**
+ * Structured logging.
+ *
+ * Every line is a single JSON object (`level`, `time`, `msg`, plus fields) so
+ * Workers Logs can index it. Lines written while handling a request carry that
+ * request's `requestId` and any fields added with `addLogContext`. Everything
+ * passes through `redact` first, so tokens, secrets and API keys (including
+ * their prefixes) never reach the logs.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED = "[REDACTED]";
+
+// Field names whose values are always dropped, wherever they appear
+const SENSITIVE_KEY = /token|secret|password|authorization|cookie|api[-_]?key|prefix|code_verifier|^code$/i;
+
+// Credential-shaped substrings inside otherwise harmless strings
+const SENSITIVE_VALUES: RegExp[] = [
+  /\bmcp_[0-9a-f]{8,}\b/gi, // issued API keys
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, // JWTs
+  /\bBearer\s+\S+/gi,
+  /\b(api_key|access_token|refresh_token|id_token|code|client_secret)=[^&\s"]+/gi,
+];
+
+interface LogContext {
+  requestId: string;
+  fields: LogFields;
+}
+
+const requestContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs `fn` with a logging context for `req`, so every line it logs carries the request id.
+ * The id comes from `X-Request-Id` or Cloudflare's `cf-ray`, else a fresh UUID.
+ * @param req - The incoming request.
+ * @param fn - The request handler.
+ */
+export function withRequestLogging<T>(req: Request, fn: () => Promise<T>): Promise<T> {
+  const requestId = req.headers.get("x-request-id") ?? req.headers.get("cf-ray") ?? crypto.randomUUID();
+  return requestContext.run({ requestId, fields: {} }, fn);
+}
+
+/**
+ * Adds fields to every later line logged for the current request.
+ * @param fields - e.g. `{ mcpMethod: "tools/call", tool: "add_todo" }`.
+ */
+export function addLogContext(fields: LogFields): void {
+  const ctx = requestContext.getStore();
+  if (ctx) Object.assign(ctx.fields, fields);
+}
+
+/**
+ * Deep-copies a value with credentials removed.
+ * @param value - Anything that is about to be logged.
+ * @param key - Field name the value sits under, if any.
+ */
+export function redact(value: unknown, key?: string): unknown {
+  if (key !== undefined && SENSITIVE_KEY.test(key)) return value === undefined || value === null ? value : REDACTED;
+  if (typeof value === "string") return SENSITIVE_VALUES.reduce((s, pattern) => s.replace(pattern, REDACTED), value);
+  if (value instanceof Error) return { name: value.name, message: redact(value.message) };
+  if (value instanceof Headers) return redact(Object.fromEntries(value));
+  if (Array.isArray(value)) return value.map((v) => redact(v));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  const threshold = LEVELS[(env.LOG_LEVEL as LogLevel) ?? "info"] ?? LEVELS.info;
+  if (LEVELS[level] < threshold) return;
+
+  const ctx = requestContext.getStore();
+  const line = JSON.stringify({
+    level,
+    time: new Date().toISOString(),
+    msg: redact(msg),
+    ...(ctx ? { requestId: ctx.requestId } : {}),
+    ...(redact({ ...ctx?.fields, ...fields }) as LogFields),
+  });
+
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
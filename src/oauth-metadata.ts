@@ -0,0 +1,99 @@
+import { SUPPORTED_AUTH_METHODS, SUPPORTED_GRANT_TYPES, SUPPORTED_RESPONSE_TYPES } from "./client-registration";
+import { ALL_SCOPES } from "./scopes";
+
+/**
+ * OAuth discovery documents.
+ *
+ * MCP clients that follow the spec start from a 401 on the MCP endpoint, read
+ * the protected resource metadata (RFC 9728) it points at, and from there the
+ * authorization server metadata (RFC 8414). Both are built from the routes
+ * below and the scopes in scopes.ts, so they cannot drift from what the worker
+ * actually serves. This worker is its own authorization server, so the issuer
+ * and the resource are both the request's origin.
+ */
+
+/**
+ * Paths of the OAuth endpoints. The OAuth provider and the metadata both read them from here.
+ */
+export const OAUTH_ENDPOINTS = {
+  authorization: "/authorize",
+  token: "/token",
+  registration: "/register",
+  revocation: "/revoke",
+} as const;
+
+export const AUTHORIZATION_SERVER_METADATA_PATH = "/.well-known/oauth-authorization-server";
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+/**
+ * Authorization server metadata (RFC 8414 §2).
+ * @param origin - Origin the request arrived on, e.g. `https://mcp.example.com`.
+ */
+export function authorizationServerMetadata(origin: string) {
+  return {
+    issuer: origin,
+    authorization_endpoint: `${origin}${OAUTH_ENDPOINTS.authorization}`,
+    token_endpoint: `${origin}${OAUTH_ENDPOINTS.token}`,
+    registration_endpoint: `${origin}${OAUTH_ENDPOINTS.registration}`,
+    scopes_supported: ALL_SCOPES,
+    response_types_supported: SUPPORTED_RESPONSE_TYPES,
+    response_modes_supported: ["query"],
+    grant_types_supported: SUPPORTED_GRANT_TYPES,
+    token_endpoint_auth_methods_supported: SUPPORTED_AUTH_METHODS,
+    code_challenge_methods_supported: ["S256"],
+    revocation_endpoint: `${origin}${OAUTH_ENDPOINTS.revocation}`,
+    revocation_endpoint_auth_methods_supported: SUPPORTED_AUTH_METHODS,
+  };
+}
+
+/**
+ * Protected resource metadata (RFC 9728 §2) for the MCP endpoints.
+ * @param origin - Origin the request arrived on.
+ */
+export function protectedResourceMetadata(origin: string) {
+  return {
+    resource: origin,
+    resource_name: "Todo MCP Server",
+    authorization_servers: [origin],
+    scopes_supported: ALL_SCOPES,
+    bearer_methods_supported: ["header"],
+  };
+}
+
+/**
+ * The metadata document for a well-known path, or null if the path is not one of ours.
+ * @param pathname - Request path.
+ * @param origin - Origin the request arrived on.
+ */
+export function metadataResponse(pathname: string, origin: string): Response | null {
+  const document =
+    pathname === AUTHORIZATION_SERVER_METADATA_PATH
+      ? authorizationServerMetadata(origin)
+      : pathname === PROTECTED_RESOURCE_METADATA_PATH
+        ? protectedResourceMetadata(origin)
+        : null;
+  if (!document) return null;
+  return Response.json(document, { headers: { "Cache-Control": "public, max-age=3600" } });
+}
+
+/**
+ * `WWW-Authenticate` value that sends the client to the protected resource metadata (RFC 9728 §5.1).
+ * @param origin - Origin the request arrived on.
+ * @param error - OAuth error code, when credentials were presented but rejected.
+ */
+export function bearerChallenge(origin: string, error?: string): string {
+  const params = [`resource_metadata="${origin}${PROTECTED_RESOURCE_METADATA_PATH}"`];
+  if (error) params.push(`error="${error}"`);
+  return `Bearer ${params.join(", ")}`;
+}
+
+/**
+ * 401 for a request to an MCP endpoint that carried no credentials at all.
+ * @param origin - Origin the request arrived on.
+ */
+export function unauthorizedResponse(origin: string): Response {
+  return Response.json(
+    { error: "invalid_request", error_description: "Authentication required: sign in via OAuth or send a registered API key" },
+    { status: 401, headers: { "WWW-Authenticate": bearerChallenge(origin) } },
+  );
+}
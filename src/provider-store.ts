@@ -0,0 +1,78 @@
+import type { ClientInfo } from "@cloudflare/workers-oauth-provider";
+import { matchesHash, sha256Hex } from "./utils";
+
+/**
+ * Reads of the OAuth provider's own records in OAUTH_KV.
+ *
+ * The provider's helpers cover most needs, but they only exist inside its
+ * handlers and cannot look a token up. Where that is not enough we read its
+ * storage directly, and this module is the only place that knows the layout:
+ *
+ * - `client:<id>` – the ClientInfo, with the hex SHA-256 of its secret
+ * - `grant:<userId>:<grantId>` – the grant, with the hashes of its refresh tokens
+ * - `token:<userId>:<grantId>:<sha256(token)>` – each live access token
+ *
+ * Tokens themselves are `userId:grantId:secret`. The layout is not part of the
+ * provider's API, so test/provider-store.test.ts checks it against the real
+ * provider; update both when upgrading @cloudflare/workers-oauth-provider.
+ */
+
+/** The grant a token was issued under */
+export interface TokenGrant {
+  userId: string;
+  grantId: string;
+  clientId: string;
+}
+
+/** The part of a stored grant we read; the provider owns the full record */
+interface StoredGrant {
+  clientId: string;
+  refreshTokenId?: string;
+  previousRefreshTokenId?: string;
+}
+
+/**
+ * The user and grant a provider-issued token names, without checking that it is still valid.
+ * @returns null if the token is not in the provider's format.
+ */
+export function tokenGrantIds(token: string): { userId: string; grantId: string } | null {
+  const parts = token.split(":");
+  if (parts.length !== 3) return null;
+  return { userId: parts[0], grantId: parts[1] };
+}
+
+/**
+ * A registered client, for code that runs before the provider's helpers are available.
+ * @param kv - The OAUTH_KV namespace.
+ * @returns null for unknown clients.
+ */
+export async function findClient(kv: KVNamespace, clientId: string): Promise<ClientInfo | null> {
+  return kv.get<ClientInfo>(`client:${clientId}`, "json");
+}
+
+/**
+ * Checks a presented client secret against the hash the provider stores.
+ */
+export async function clientSecretMatches(client: ClientInfo, secret: string): Promise<boolean> {
+  return !!client.clientSecret && (await matchesHash(secret, client.clientSecret));
+}
+
+/**
+ * The grant an MCP token was issued under. The token must still be current, as
+ * the grant's refresh token (or the one it replaced) or a live access token.
+ * @param kv - The OAUTH_KV namespace.
+ * @returns null for unknown, expired or revoked tokens.
+ */
+export async function findTokenGrant(kv: KVNamespace, token: string): Promise<TokenGrant | null> {
+  const ids = tokenGrantIds(token);
+  if (!ids) return null;
+  const { userId, grantId } = ids;
+
+  const grant = await kv.get<StoredGrant>(`grant:${userId}:${grantId}`, "json");
+  if (!grant) return null;
+
+  const tokenId = await sha256Hex(token);
+  const isRefreshToken = grant.refreshTokenId === tokenId || grant.previousRefreshTokenId === tokenId;
+  const isAccessToken = !isRefreshToken && (await kv.get(`token:${userId}:${grantId}:${tokenId}`)) !== null;
+  return isRefreshToken || isAccessToken ? { userId, grantId, clientId: grant.clientId } : null;
+}
@@ -0,0 +1,205 @@
+import { DurableObject } from "cloudflare:workers";
+
+/**
+ * Per-caller rate limiting.
+ *
+ * Every API key (by hash) and every Cognito user (by `Props.sub`) gets its own
+ * RateLimiter Durable Object, so limits are consistent across isolates. Each
+ * object keeps a token bucket for burst control plus a per-UTC-day request quota.
+ */
+
+/**
+ * Limits applied to one caller.
+ */
+export interface RateLimitPolicy {
+  /** Bucket size, i.e. the largest burst allowed */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+  /** Requests allowed per UTC day, or null for no daily cap */
+  dailyQuota: number | null;
+}
+
+/**
+ * Named policies; API keys pick one via their registry entry's `tier`.
+ */
+export const RATE_LIMIT_TIERS = {
+  free: { capacity: 20, refillPerSecond: 0.2, dailyQuota: 500 },
+  standard: { capacity: 60, refillPerSecond: 1, dailyQuota: 10_000 },
+  unlimited: { capacity: 600, refillPerSecond: 10, dailyQuota: null },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitTier = keyof typeof RATE_LIMIT_TIERS;
+
+export const DEFAULT_RATE_LIMIT_TIER: RateLimitTier = "standard";
+
+/**
+ * Daily quota usage for one caller.
+ */
+export interface QuotaStatus {
+  /** Requests allowed today, or null for no daily cap */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  /** Unix timestamp (seconds) of the next UTC midnight, when usage resets */
+  resetsAt: number;
+}
+
+/**
+ * Outcome of consuming one request from a caller's budget.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Bucket capacity */
+  limit: number;
+  /** Whole tokens left in the bucket */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  reset: number;
+  /** Seconds to wait before retrying; 0 when allowed */
+  retryAfter: number;
+  quota: QuotaStatus;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  day: string;
+  dailyUsed: number;
+}
+
+export class RateLimiter extends DurableObject<Env> {
+  /**
+   * Takes one token from the bucket and counts the request against today's quota.
+   * @param policy - Limits for this caller's tier.
+   */
+  async consume(policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const state = await this.load(policy, now);
+
+    let retryAfter = 0;
+    if (policy.dailyQuota !== null && state.dailyUsed >= policy.dailyQuota) {
+      retryAfter = Math.ceil((nextUtcMidnight(now) - now) / 1000);
+    } else if (state.tokens < 1) {
+      retryAfter = Math.ceil((1 - state.tokens) / policy.refillPerSecond);
+    } else {
+      state.tokens -= 1;
+      state.dailyUsed += 1;
+    }
+
+    await this.ctx.storage.put("bucket", state);
+    return describe(policy, state, now, retryAfter);
+  }
+
+  /**
+   * Reports the caller's current usage without consuming anything.
+   * @param policy - Limits for this caller's tier.
+   */
+  async status(policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    return describe(policy, await this.load(policy, now), now, 0);
+  }
+
+  /**
+   * Loads the bucket, refilled up to `now` and rolled over to the current UTC day.
+   */
+  private async load(policy: RateLimitPolicy, now: number): Promise<BucketState> {
+    const today = utcDay(now);
+    const stored = await this.ctx.storage.get<BucketState>("bucket");
+    if (!stored) return { tokens: policy.capacity, updatedAt: now, day: today, dailyUsed: 0 };
+
+    const elapsed = Math.max(0, now - stored.updatedAt) / 1000;
+    return {
+      tokens: Math.min(policy.capacity, stored.tokens + elapsed * policy.refillPerSecond),
+      updatedAt: now,
+      day: today,
+      dailyUsed: stored.day === today ? stored.dailyUsed : 0,
+    };
+  }
+}
+
+/**
+ * Consumes one request for a caller.
+ * @param env - Worker environment with the RATE_LIMITER binding.
+ * @param subject - Caller identity, e.g. `key:<hash>` or `user:<sub>`.
+ * @param tier - Policy tier for the caller.
+ */
+export async function consumeRateLimit(env: Env, subject: string, tier: RateLimitTier = DEFAULT_RATE_LIMIT_TIER): Promise<RateLimitResult> {
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(subject)).consume(RATE_LIMIT_TIERS[tier]);
+}
+
+/**
+ * Reads a caller's usage without consuming anything.
+ * @param env - Worker environment with the RATE_LIMITER binding.
+ * @param subject - Caller identity, e.g. `key:<hash>` or `user:<sub>`.
+ * @param tier - Policy tier for the caller.
+ */
+export async function rateLimitStatus(env: Env, subject: string, tier: RateLimitTier = DEFAULT_RATE_LIMIT_TIER): Promise<RateLimitResult> {
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(subject)).status(RATE_LIMIT_TIERS[tier]);
+}
+
+/**
+ * `RateLimit-*` headers (IETF draft) describing the caller's bucket, plus
+ * `Retry-After` when the request was rejected.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.reset),
+  };
+  if (!result.allowed) headers["Retry-After"] = String(result.retryAfter);
+  return headers;
+}
+
+/**
+ * Copies a response, adding the caller's `RateLimit-*` headers.
+ */
+export function withRateLimitHeaders(res: Response, result: RateLimitResult): Response {
+  const headers = new Headers(res.headers);
+  for (const [k, v] of Object.entries(rateLimitHeaders(result))) headers.set(k, v);
+  return new Response(res.body, { status: res.status, statusText: res.statusText, headers });
+}
+
+/**
+ * The 429 response for a rejected request.
+ */
+export function rateLimitedResponse(result: RateLimitResult): Response {
+  const quotaExhausted = result.quota.remaining === 0;
+  return Response.json(
+    {
+      error: quotaExhausted ? "quota_exceeded" : "rate_limited",
+      error_description: quotaExhausted ? "Daily request quota exhausted" : "Too many requests",
+      retry_after: result.retryAfter,
+    },
+    { status: 429, headers: rateLimitHeaders(result) },
+  );
+}
+
+// --- Helper Functions ---
+
+function describe(policy: RateLimitPolicy, state: BucketState, now: number, retryAfter: number): RateLimitResult {
+  const remaining = policy.dailyQuota === null ? null : Math.max(0, policy.dailyQuota - state.dailyUsed);
+  return {
+    allowed: retryAfter === 0,
+    limit: policy.capacity,
+    remaining: Math.floor(state.tokens),
+    reset: Math.ceil((policy.capacity - state.tokens) / policy.refillPerSecond),
+    retryAfter,
+    quota: {
+      limit: policy.dailyQuota,
+      used: state.dailyUsed,
+      remaining,
+      resetsAt: Math.floor(nextUtcMidnight(now) / 1000),
+    },
+  };
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: number): number {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+}
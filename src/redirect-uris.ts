@@ -0,0 +1,116 @@
+import { findClient } from "./provider-store";
+
+/**
+ * Matching requested redirect URIs against a client's registered ones.
+ *
+ * Matching is exact, with one exception for native apps (RFC 8252 §7.3): a
+ * registered loopback URI such as `http://127.0.0.1/callback` also matches the
+ * same URI on any port, since the app only learns its port when it starts
+ * listening. The OAuth provider itself only accepts registered URIs verbatim,
+ * so callers hand it the registered URI this returns.
+ */
+
+export const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/** A private-use scheme named after a domain the app's author controls, reversed (RFC 8252 §7.1) */
+const PRIVATE_USE_SCHEME = /^[a-z][a-z0-9-]*(\.[a-z0-9-]+)+:$/;
+
+/**
+ * Whether a client may register a redirect URI with this scheme: https, plain http
+ * on a loopback host, or a private-use scheme such as `com.example.app:`.
+ */
+export function isAllowedRedirectScheme(url: URL): boolean {
+  if (url.protocol === "https:") return true;
+  if (url.protocol === "http:") return LOOPBACK_HOSTS.includes(url.hostname);
+  return PRIVATE_USE_SCHEME.test(url.protocol);
+}
+
+/**
+ * Finds the registered redirect URI a requested one matches.
+ * @param requested - The `redirect_uri` from the request.
+ * @param registered - The client's registered redirect URIs.
+ * @returns The matching registered URI, or null if there is none.
+ */
+export function matchRedirectUri(requested: string, registered: readonly string[]): string | null {
+  if (registered.includes(requested)) return requested;
+
+  const url = parseUrl(requested);
+  if (!url || url.protocol !== "http:" || !LOOPBACK_HOSTS.includes(url.hostname) || url.hash) return null;
+  return registered.find((candidate) => sameIgnoringPort(url, parseUrl(candidate))) ?? null;
+}
+
+/**
+ * Resolves the `redirect_uri` of an authorization request against the client's registered URIs.
+ * Without one, a client with a single registered URI gets that one (RFC 6749 §3.1.2.3).
+ * @param requested - The `redirect_uri` from the request, if any.
+ * @param registered - The client's registered redirect URIs.
+ * @returns The URI to send the user back to and the registered URI it matches, or null if there is none.
+ */
+export function resolveRedirectUri(
+  requested: string | null,
+  registered: readonly string[],
+): { requested: string; registered: string } | null {
+  const uri = requested || (registered.length === 1 ? registered[0] : "");
+  const match = uri ? matchRedirectUri(uri, registered) : null;
+  return match ? { requested: uri, registered: match } : null;
+}
+
+/**
+ * Rewrites the `redirect_uri` of an authorization code token request to the
+ * registered URI it matches, so the provider accepts a loopback URI on the port
+ * the app actually used. Other requests are returned unchanged.
+ * @param request - A POST to the token endpoint.
+ * @param kv - The OAUTH_KV namespace.
+ */
+export async function withRegisteredRedirectUri(request: Request, kv: KVNamespace): Promise<Request> {
+  if (!request.headers.get("Content-Type")?.includes("application/x-www-form-urlencoded")) return request;
+
+  const body = new URLSearchParams(await request.clone().text());
+  const redirectUri = body.get("redirect_uri");
+  const clientId = body.get("client_id") ?? basicClientId(request.headers.get("Authorization"));
+  if (body.get("grant_type") !== "authorization_code" || !redirectUri || !clientId) return request;
+
+  const client = await findClient(kv, clientId);
+  const registered = client ? matchRedirectUri(redirectUri, client.redirectUris) : null;
+  if (!registered || registered === redirectUri) return request;
+
+  body.set("redirect_uri", registered);
+  const headers = new Headers(request.headers);
+  headers.delete("Content-Length");
+  return new Request(request, { headers, body: body.toString() });
+}
+
+// --- Helper Functions ---
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function sameIgnoringPort(requested: URL, registered: URL | null): boolean {
+  return (
+    !!registered &&
+    registered.protocol === requested.protocol &&
+    registered.hostname === requested.hostname &&
+    registered.pathname === requested.pathname &&
+    registered.search === requested.search &&
+    !registered.hash
+  );
+}
+
+/**
+ * The client ID from HTTP Basic client authentication, if that is how the client authenticated.
+ */
+function basicClientId(authorization: string | null): string | null {
+  if (!authorization?.startsWith("Basic ")) return null;
+  try {
+    const credentials = atob(authorization.slice(6));
+    const separator = credentials.indexOf(":");
+    return separator < 0 ? null : decodeURIComponent(credentials.slice(0, separator));
+  } catch {
+    return null;
+  }
+}
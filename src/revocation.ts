@@ -0,0 +1,143 @@
+import type { ClientInfo, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import { clearAccountSession } from "./account-session";
+import { forgetGrantUse } from "./grant-activity";
+import { createIdentityProvider, IdentityProviderError } from "./identity-provider";
+import { log } from "./logger";
+import { clientSecretMatches, findTokenGrant } from "./provider-store";
+import { tokenRefresher } from "./token-refresher";
+import { approvalCookieOptions } from "./utils";
+import { clearApprovedClientsCookie } from "./workers-oauth-utils";
+
+/**
+ * Token revocation (RFC 7009) and sign-out.
+ *
+ * `POST /revoke` takes an MCP access or refresh token and deletes the grant it
+ * belongs to, with every token issued under it. When that was the user's last
+ * grant, their upstream tokens are revoked at the identity provider too; while
+ * other grants remain they share those tokens (see token-refresher.ts), so they
+ * are left alone.
+ *
+ * `GET /logout` forgets which clients the browser approved and ends the
+ * user's session at the identity provider, so the next authorization asks
+ * them to sign in again.
+ */
+
+type Bindings = Env & { OAUTH_PROVIDER: OAuthHelpers };
+
+const app = new Hono<{ Bindings: Bindings }>();
+
+// Where the identity provider sends the browser after logout
+const LOGGED_OUT_PATH = "/logged-out";
+
+app.use("/revoke", cors({ origin: "*", allowMethods: ["POST", "OPTIONS"], allowHeaders: ["Authorization", "Content-Type"] }));
+
+/**
+ * Revoke a token (RFC 7009 §2). Unknown or already revoked tokens still get a 200 (§2.2).
+ */
+app.post("/revoke", async (c) => {
+  const body = await c.req.parseBody().catch(() => ({}) as Record<string, string | File>);
+  const client = await authenticateClient(c.env, c.req.header("Authorization"), body);
+  if (!client) {
+    return c.json({ error: "invalid_client", error_description: "Client authentication failed" }, 401, {
+      "WWW-Authenticate": 'Basic realm="OAuth"',
+    });
+  }
+
+  const token = typeof body.token === "string" ? body.token : "";
+  if (!token) return c.json({ error: "invalid_request", error_description: "token is required" }, 400);
+
+  const issued = await findTokenGrant(c.env.OAUTH_KV, token);
+  if (!issued) return c.body(null, 200);
+  if (issued.clientId !== client.clientId) {
+    log.warn("Revocation refused", { clientId: client.clientId, grantClientId: issued.clientId });
+    return c.json({ error: "unauthorized_client", error_description: "The token was not issued to this client" }, 400);
+  }
+
+  await c.env.OAUTH_PROVIDER.revokeGrant(issued.grantId, issued.userId);
+  await forgetGrantUse(c.env.OAUTH_KV, issued.userId, issued.grantId);
+  log.info("Grant revoked", { sub: issued.userId, clientId: client.clientId });
+
+  await revokeUpstreamIfUnused(c.env, issued.userId);
+
+  return c.body(null, 200, { "Cache-Control": "no-store" });
+});
+
+/**
+ * Sign out: clear the approved-clients and account session cookies and end the identity provider's session.
+ */
+app.get("/logout", async (c) => {
+  const returnTo = new URL(LOGGED_OUT_PATH, c.req.url).href;
+  let location = returnTo;
+  try {
+    location = (await createIdentityProvider(c.env).logoutUrl(returnTo)) ?? returnTo;
+  } catch (error) {
+    if (!(error instanceof IdentityProviderError)) throw error;
+    log.warn("Identity provider logout unavailable", { errorCode: error.code });
+  }
+
+  log.info("Logged out");
+  const headers = new Headers({ Location: location });
+  const cookies = [clearApprovedClientsCookie(approvalCookieOptions(c.env)), clearAccountSession()];
+  for (const cookie of cookies) headers.append("Set-Cookie", cookie["Set-Cookie"]);
+  return new Response(null, { status: 302, headers });
+});
+
+app.get(LOGGED_OUT_PATH, (c) => {
+  return c.html(
+    '<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><title>Signed out</title></head>' +
+      "<body><p>You have been signed out. You can close this window.</p></body></html>",
+  );
+});
+
+/**
+ * Revokes the user's upstream tokens once they have no grants left. Failures are
+ * logged but do not fail the request: the MCP grants are already gone.
+ * @param env - Worker environment with the OAuth helpers.
+ * @param sub - The user's `Props.sub`.
+ */
+export async function revokeUpstreamIfUnused(env: Bindings, sub: string): Promise<void> {
+  const { items } = await env.OAUTH_PROVIDER.listUserGrants(sub, { limit: 1 });
+  if (items.length > 0) return;
+
+  const tokens = await tokenRefresher(env, sub).forget();
+  if (!tokens) return;
+  try {
+    await createIdentityProvider(env).revoke(tokens);
+    log.info("Upstream tokens revoked", { sub });
+  } catch (error) {
+    if (!(error instanceof IdentityProviderError)) throw error;
+    log.warn("Upstream revocation failed", { sub, errorCode: error.code });
+  }
+}
+
+// --- Helper Functions ---
+
+/**
+ * The calling client, authenticated the same way as at the token endpoint:
+ * HTTP Basic or `client_id` / `client_secret` in the body, or `client_id` alone for public clients.
+ */
+async function authenticateClient(env: Bindings, authorization: string | undefined, body: Record<string, unknown>): Promise<ClientInfo | null> {
+  let clientId = typeof body.client_id === "string" ? body.client_id : "";
+  let clientSecret = typeof body.client_secret === "string" ? body.client_secret : "";
+  if (authorization?.startsWith("Basic ")) {
+    try {
+      const credentials = atob(authorization.slice(6));
+      const separator = credentials.indexOf(":");
+      if (separator < 0) return null;
+      clientId = decodeURIComponent(credentials.slice(0, separator));
+      clientSecret = decodeURIComponent(credentials.slice(separator + 1));
+    } catch {
+      return null;
+    }
+  }
+  if (!clientId) return null;
+
+  const client = await env.OAUTH_PROVIDER.lookupClient(clientId);
+  if (!client) return null;
+  if (client.tokenEndpointAuthMethod === "none") return client;
+  return (await clientSecretMatches(client, clientSecret)) ? client : null;
+}
+
+export { app as RevocationHandler };
@@ -0,0 +1,42 @@
+/**
+ * Scopes understood by this server, with a human-readable description of each.
+ * API keys carry them in their registry entry; OAuth sessions carry the scopes
+ * granted at authorization time in `Props.scopes`.
+ */
+export const SCOPES = {
+  "todos:read": "View your todos",
+  "todos:write": "Create, update, complete and delete your todos",
+} as const;
+
+export type Scope = keyof typeof SCOPES;
+
+export const ALL_SCOPES = Object.keys(SCOPES) as Scope[];
+
+/**
+ * Checks whether a scope is one this server knows about.
+ */
+export function isScope(value: string): value is Scope {
+  return Object.prototype.hasOwnProperty.call(SCOPES, value);
+}
+
+/**
+ * Narrows a requested scope list to the scopes this server supports.
+ * An OAuth request that asks for no scopes is granted all of them.
+ */
+export function grantedScopes(requested: string[]): Scope[] {
+  if (requested.length === 0) return [...ALL_SCOPES];
+  return requested.filter(isScope);
+}
+
+/**
+ * Checks whether a granted scope list satisfies a required scope.
+ */
+export function hasScope(granted: readonly string[], required: Scope): boolean {
+  return granted.includes(required);
+}
+
+/**
+ * Scopes the user cannot untick on the approval dialog when a client requests
+ * them; every other requested scope is optional.
+ */
+export const REQUIRED_SCOPES: readonly Scope[] = ["todos:read"];
@@ -0,0 +1,300 @@
+import { z } from "zod";
+
+/**
+ * Client for the tasks backend (API Gateway `/tasks`) shared by every todo tool.
+ *
+ * Requests and responses are validated with zod, failures are surfaced as typed
+ * errors, and 5xx / 429 responses are retried with exponential backoff. Creating
+ * a task is not idempotent, so POSTs are only retried on 429, which means the
+ * backend did not process them.
+ */
+
+// Methods that are safe to repeat after a 5xx or a network error
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "DELETE"]);
+
+// --- Schemas ---
+
+export const TaskSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]).transform(String),
+    title: z.string(),
+    note: z.string().optional(),
+    date: z.string().optional(),
+    completed: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const TaskListSchema = z.union([
+  z.array(TaskSchema),
+  z.object({ items: z.array(TaskSchema) }).transform((r) => r.items),
+]);
+
+export const CreateTaskInputSchema = z.object({
+  title: z.string().min(1),
+  note: z.string().optional(),
+  date: z.string().optional(),
+});
+
+export const UpdateTaskInputSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    note: z.string().optional(),
+    completed: z.boolean().optional(),
+  })
+  .refine((v) => Object.values(v).some((field) => field !== undefined), { message: "At least one field must be updated" });
+
+export type Task = z.infer<typeof TaskSchema>;
+export type CreateTaskInput = z.infer<typeof CreateTaskInputSchema>;
+export type UpdateTaskInput = z.infer<typeof UpdateTaskInputSchema>;
+
+// --- Errors ---
+
+/**
+ * Base class for all errors raised by the tasks client.
+ */
+export class TasksApiError extends Error {
+  constructor(
+    message: string,
+    /** Machine-readable error code, stable across releases */
+    public readonly code: string,
+    /** HTTP status from the backend, or 0 when the request never completed */
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "TasksApiError";
+  }
+}
+
+/** The backend rejected the credentials (401/403). */
+export class TasksAuthError extends TasksApiError {
+  constructor(message: string, status: number) {
+    super(message, "unauthorized", status);
+    this.name = "TasksAuthError";
+  }
+}
+
+/** The request (or the backend's response) failed schema validation. */
+export class TasksValidationError extends TasksApiError {
+  constructor(
+    message: string,
+    status: number,
+    public readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message, "validation_failed", status);
+    this.name = "TasksValidationError";
+  }
+}
+
+/** The requested task does not exist. */
+export class TasksNotFoundError extends TasksApiError {
+  constructor(message: string) {
+    super(message, "not_found", 404);
+    this.name = "TasksNotFoundError";
+  }
+}
+
+/** The backend is throttling us and retries were exhausted, or it asked us to wait longer than we will. */
+export class TasksRateLimitedError extends TasksApiError {
+  constructor(
+    message: string,
+    /** Seconds the backend asked us to wait, if it said */
+    public readonly retryAfter?: number,
+  ) {
+    super(message, "rate_limited", 429);
+    this.name = "TasksRateLimitedError";
+  }
+}
+
+/** The backend failed (5xx, network error or malformed response) and retries were exhausted. */
+export class TasksUpstreamError extends TasksApiError {
+  constructor(message: string, status: number) {
+    super(message, "upstream_error", status);
+    this.name = "TasksUpstreamError";
+  }
+}
+
+// --- Client ---
+
+/**
+ * Credentials for the tasks backend: an API key (sent as `x-api-key`) or the
+ * upstream OAuth access token of a signed-in user (sent as a Bearer token).
+ */
+export type TasksCredentials = { apiKey: string } | { accessToken: string };
+
+export interface TasksClientOptions {
+  /** Base URL of the tasks collection, e.g. https://…/tasks */
+  baseUrl: string;
+  /** How requests authenticate against the backend */
+  credentials: TasksCredentials;
+  /**
+   * Number of retries for 5xx / 429 responses
+   * @default 2
+   */
+  maxRetries?: number;
+  /**
+   * Initial backoff in milliseconds, doubled on each retry
+   * @default 250
+   */
+  baseDelayMs?: number;
+  /**
+   * Longest `Retry-After` the client waits out; a longer one fails the request straight away
+   * @default 10000
+   */
+  maxRetryAfterMs?: number;
+  /** Override for fetch, mainly for local stub servers */
+  fetch?: typeof fetch;
+}
+
+export class TasksClient {
+  private readonly baseUrl: string;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxRetryAfterMs: number;
+  private readonly fetcher: typeof fetch;
+
+  constructor(private readonly options: TasksClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 250;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 10_000;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async list(): Promise<Task[]> {
+    const body = await this.request("GET", "");
+    return parseResponse(TaskListSchema, body);
+  }
+
+  async get(id: string): Promise<Task> {
+    const body = await this.request("GET", `/${encodeURIComponent(id)}`);
+    return parseResponse(TaskSchema, body);
+  }
+
+  async create(input: CreateTaskInput): Promise<Task> {
+    const payload = parseRequest(CreateTaskInputSchema, input);
+    const body = await this.request("POST", "", {
+      title: payload.title,
+      note: payload.note ?? "",
+      date: payload.date ?? new Date().toISOString(),
+    });
+    return parseResponse(TaskSchema, body);
+  }
+
+  async update(id: string, input: UpdateTaskInput): Promise<Task> {
+    const payload = parseRequest(UpdateTaskInputSchema, input);
+    const body = await this.request("PUT", `/${encodeURIComponent(id)}`, payload);
+    return parseResponse(TaskSchema, body);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request("DELETE", `/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Performs a request, retrying 429 (and, for idempotent methods, 5xx and network errors)
+   * with exponential backoff, or after the backend's `Retry-After` if it is short enough.
+   * @returns The parsed JSON body, or null for empty responses.
+   */
+  private async request(method: string, path: string, payload?: unknown): Promise<unknown> {
+    const idempotent = IDEMPOTENT_METHODS.has(method);
+    for (let attempt = 0; ; attempt++) {
+      let res: Response;
+      try {
+        res = await this.fetcher(`${this.baseUrl}${path}`, {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders(this.options.credentials),
+          },
+          body: payload === undefined ? undefined : JSON.stringify(payload),
+        });
+      } catch (e) {
+        if (idempotent && attempt < this.maxRetries) {
+          await sleep(this.backoff(attempt));
+          continue;
+        }
+        throw new TasksUpstreamError(`Tasks API unreachable: ${e instanceof Error ? e.message : String(e)}`, 0);
+      }
+
+      const retryable = res.status === 429 || (idempotent && res.status >= 500);
+      const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+      const delay = retryAfter !== undefined ? retryAfter * 1000 : this.backoff(attempt);
+      if (retryable && attempt < this.maxRetries && delay <= this.maxRetryAfterMs) {
+        await sleep(delay);
+        continue;
+      }
+
+      const text = await res.text();
+      if (res.ok) return text ? safeJson(text) : null;
+
+      const detail = errorDetail(text) || res.statusText;
+      if (res.status === 401 || res.status === 403) throw new TasksAuthError(`Tasks API rejected the credentials: ${detail}`, res.status);
+      if (res.status === 404) throw new TasksNotFoundError(`Task not found: ${detail}`);
+      if (res.status === 429) throw new TasksRateLimitedError(`Tasks API rate limit exceeded: ${detail}`, retryAfter);
+      if (res.status >= 500) throw new TasksUpstreamError(`Tasks API error: ${detail}`, res.status);
+      throw new TasksValidationError(`Tasks API rejected the request: ${detail}`, res.status);
+    }
+  }
+
+  private backoff(attempt: number): number {
+    // Full jitter keeps concurrent tool calls from retrying in lockstep
+    return Math.random() * this.baseDelayMs * 2 ** attempt;
+  }
+}
+
+/**
+ * Creates a tasks client for the configured backend.
+ * @param env - Worker environment carrying TASKS_API_URL.
+ * @param credentials - The caller's resolved API key or upstream access token.
+ */
+export function createTasksClient(env: Pick<Env, "TASKS_API_URL">, credentials: TasksCredentials): TasksClient {
+  return new TasksClient({ baseUrl: env.TASKS_API_URL, credentials });
+}
+
+// --- Helper Functions ---
+
+function parseRequest<T extends z.ZodTypeAny>(schema: T, input: unknown): z.output<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new TasksValidationError(`Invalid request: ${parsed.error.issues.map((i) => i.message).join(", ")}`, 0, parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+function parseResponse<T extends z.ZodTypeAny>(schema: T, body: unknown): z.output<T> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new TasksUpstreamError(`Unexpected response from Tasks API: ${parsed.error.issues.map((i) => i.message).join(", ")}`, 200);
+  }
+  return parsed.data;
+}
+
+function authHeaders(credentials: TasksCredentials): Record<string, string> {
+  return "apiKey" in credentials ? { "x-api-key": credentials.apiKey } : { Authorization: `Bearer ${credentials.accessToken}` };
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function errorDetail(text: string): string {
+  const body = safeJson(text);
+  if (body && typeof body === "object" && "message" in body) return String((body as { message: unknown }).message);
+  return typeof body === "string" ? body : JSON.stringify(body);
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,134 @@
+/**
+ * Look of the approval dialog: logo, colors and fonts.
+ *
+ * The dialog's stylesheet only refers to the CSS custom properties built here,
+ * so a deployment can rebrand it without touching the template. Fonts are
+ * font-family stacks; the page's Content-Security-Policy blocks web fonts.
+ */
+
+export interface Theme {
+  /** Logo shown next to the server name; must be an https or data: URL */
+  logo?: string;
+  colors: {
+    /** Approve button and other accents */
+    primary: string;
+    /** Text on the primary color */
+    onPrimary: string;
+    error: string;
+    border: string;
+    text: string;
+    /** Secondary text, e.g. the server description */
+    mutedText: string;
+    /** The dialog card */
+    background: string;
+    /** The page behind the card */
+    pageBackground: string;
+  };
+  fonts: {
+    body: string;
+    /** Client details such as URIs */
+    mono: string;
+  };
+}
+
+export const DEFAULT_THEME: Theme = {
+  colors: {
+    primary: "#0070f3",
+    onPrimary: "#fff",
+    error: "#f44336",
+    border: "#e5e7eb",
+    text: "#333",
+    mutedText: "#555",
+    background: "#fff",
+    pageBackground: "#f9fafb",
+  },
+  fonts: {
+    body: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol"',
+    mono: 'SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+  },
+};
+
+/**
+ * The approval dialog's stylesheet. Follows the `:root` rule from `themeStyles`.
+ */
+export const DIALOG_STYLES = `
+  body {
+    font-family: var(--body-font);
+    line-height: 1.6;
+    color: var(--text-color);
+    background-color: var(--page-background-color);
+    margin: 0;
+    padding: 0;
+  }
+
+  .container { max-width: 600px; margin: 2rem auto; padding: 1rem; }
+  .precard { padding: 2rem; text-align: center; }
+  .card { background-color: var(--background-color); border-radius: 8px; box-shadow: 0 8px 36px 8px rgba(0, 0, 0, 0.1); padding: 2rem; }
+  .header { display: flex; align-items: center; justify-content: center; margin-bottom: 1.5rem; }
+  .logo { width: 48px; height: 48px; margin-right: 1rem; border-radius: 8px; object-fit: contain; }
+  .title { margin: 0; font-size: 1.3rem; font-weight: 400; }
+  .alert { font-size: 1.5rem; font-weight: 400; margin: 1rem 0; text-align: center; }
+  .description { color: var(--muted-text-color); }
+  .client-info { border: 1px solid var(--border-color); border-radius: 6px; padding: 1rem 1rem 0.5rem; margin-bottom: 1.5rem; }
+  .client-name { font-weight: 600; font-size: 1.2rem; margin: 0 0 0.5rem 0; }
+  .client-detail { display: flex; margin-bottom: 0.5rem; align-items: baseline; }
+  .detail-label { font-weight: 500; min-width: 120px; }
+  .detail-value { font-family: var(--mono-font); word-break: break-all; }
+  .detail-value a { color: inherit; text-decoration: underline; }
+  .detail-value.small { font-size: 0.8em; }
+  .scopes { border: 1px solid var(--border-color); border-radius: 6px; padding: 1rem; margin-bottom: 1.5rem; }
+  .scopes-title { font-weight: 600; margin: 0 0 0.5rem 0; }
+  .scope { display: flex; gap: 0.5rem; align-items: baseline; margin-bottom: 0.25rem; }
+  .actions { display: flex; justify-content: flex-end; gap: 1rem; margin-top: 2rem; }
+  .button { padding: 0.75rem 1.5rem; border-radius: 6px; font-weight: 500; cursor: pointer; border: none; font-size: 1rem; }
+  .button-primary { background-color: var(--primary-color); color: var(--on-primary-color); }
+  .button-secondary { background-color: transparent; border: 1px solid var(--border-color); color: var(--text-color); }
+
+  @media (max-width: 640px) {
+    .container { margin: 1rem auto; padding: 0.5rem; }
+    .card { padding: 1.5rem; }
+    .client-detail { flex-direction: column; }
+    .detail-label { min-width: unset; margin-bottom: 0.25rem; }
+    .actions { flex-direction: column; }
+    .button { width: 100%; }
+  }
+`;
+
+/**
+ * The theme configured for this deployment: DEFAULT_THEME with the logo from SERVER_LOGO_URL, if set.
+ * @param env - Worker environment.
+ */
+export function themeFromEnv(env: Env): Theme {
+  return { ...DEFAULT_THEME, logo: env.SERVER_LOGO_URL || undefined };
+}
+
+/**
+ * The theme as a `:root` rule of CSS custom properties.
+ * @param theme - The theme to render.
+ * @throws If a value could break out of its declaration.
+ */
+export function themeStyles(theme: Theme): string {
+  const properties: Record<string, string> = {
+    "--primary-color": theme.colors.primary,
+    "--on-primary-color": theme.colors.onPrimary,
+    "--error-color": theme.colors.error,
+    "--border-color": theme.colors.border,
+    "--text-color": theme.colors.text,
+    "--muted-text-color": theme.colors.mutedText,
+    "--background-color": theme.colors.background,
+    "--page-background-color": theme.colors.pageBackground,
+    "--body-font": theme.fonts.body,
+    "--mono-font": theme.fonts.mono,
+  };
+  const declarations = Object.entries(properties).map(([name, value]) => `${name}: ${cssValue(value)};`);
+  return `:root { ${declarations.join(" ")} }`;
+}
+
+// --- Helper Functions ---
+
+function cssValue(value: string): string {
+  if (/[<>{};\\]/.test(value)) {
+    throw new Error(`Invalid theme value: ${value}`);
+  }
+  return value;
+}
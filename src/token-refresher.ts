@@ -0,0 +1,147 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  createIdentityProvider,
+  IdentityProviderError,
+  type IdentityProvider,
+  type UpstreamTokens,
+  type UpstreamUser,
+} from "./identity-provider";
+import { log } from "./logger";
+import { isTokenNearExpiry, updatePropsWithTokens, type Props } from "./utils";
+
+/**
+ * Server-side refresh of upstream tokens.
+ *
+ * Every signed-in user gets a TokenRefresher Durable Object (named by
+ * `Props.sub`) holding their newest upstream tokens. MCP sessions ask it for
+ * fresh tokens before calling the tasks backend, so refresh tokens are redeemed
+ * by one object at a time even when several sessions or grants expire together.
+ */
+
+/**
+ * The part of `Props` that belongs to the user rather than to one grant.
+ */
+export type UserTokens = Omit<Props, "scopes">;
+
+/**
+ * Token refresh middleware - automatically refreshes tokens if they're about to expire
+ * @param currentProps - Props holding the upstream refresh token.
+ * @param provider - The identity provider that issued the tokens.
+ * @returns Updated props, or `currentProps` unchanged when no refresh was needed or it failed.
+ */
+async function refreshTokenIfNeeded<T extends UserTokens>(currentProps: T, provider: IdentityProvider): Promise<T> {
+  // Check if token needs refresh (within the refresh skew of expiry)
+  if (!isTokenNearExpiry(currentProps.tokenExpiresAt)) {
+    return currentProps; // No refresh needed
+  }
+
+  // Without a refresh token (e.g. a GitHub OAuth app, whose tokens do not expire) there is nothing to do
+  if (!currentProps.refreshToken) {
+    return currentProps;
+  }
+
+  log.info("Token near expiry, refreshing", { sub: currentProps.sub });
+
+  // Attempt to refresh tokens
+  let newTokens: UpstreamTokens;
+  try {
+    newTokens = await provider.refresh(currentProps.refreshToken);
+  } catch (error) {
+    if (!(error instanceof IdentityProviderError)) throw error;
+    log.warn("Token refresh failed", { sub: currentProps.sub, errorCode: error.code });
+    return currentProps; // Return current props if refresh fails
+  }
+
+  // The old refresh token may already be spent, so the new tokens are kept even when the
+  // user lookup fails; the profile then stays as it was until the next refresh
+  let user: UpstreamUser | undefined;
+  try {
+    user = await provider.userInfo(newTokens);
+  } catch (error) {
+    log.warn("User lookup after token refresh failed", { sub: currentProps.sub, error });
+  }
+
+  // Tokens for anyone else are never accepted
+  let updatedProps: T;
+  try {
+    updatedProps = updatePropsWithTokens(currentProps, newTokens, user);
+  } catch (error) {
+    if (!(error instanceof IdentityProviderError)) throw error;
+    log.error("Refreshed tokens rejected", { sub: currentProps.sub, errorCode: error.code });
+    return currentProps;
+  }
+
+  log.info("Token refreshed", { sub: currentProps.sub });
+
+  return updatedProps;
+}
+
+export class TokenRefresher extends DurableObject<Env> {
+  // Refresh in progress, shared by every caller that arrives while it runs
+  private inflight?: Promise<UserTokens>;
+
+  /**
+   * Returns the newest tokens for the user, refreshing them first if they are near expiry.
+   * @param current - The caller's copy of the tokens; kept if it is newer than ours.
+   */
+  async fresh(current: UserTokens): Promise<UserTokens> {
+    const latest = await this.remember(current);
+    if (!isTokenNearExpiry(latest.tokenExpiresAt)) return latest;
+
+    this.inflight ??= this.refresh(latest).finally(() => {
+      this.inflight = undefined;
+    });
+    return this.inflight;
+  }
+
+  /**
+   * Stores the caller's tokens if they are newer than ours.
+   * @returns Whichever copy is newer.
+   */
+  async remember(current: UserTokens): Promise<UserTokens> {
+    const stored = await this.ctx.storage.get<UserTokens>("tokens");
+    if (stored && stored.tokenIssuedAt >= current.tokenIssuedAt) return stored;
+    const tokens = withoutScopes(current);
+    await this.ctx.storage.put("tokens", tokens);
+    return tokens;
+  }
+
+  /**
+   * Drops the stored tokens, e.g. once the user's last grant is revoked.
+   * @returns The tokens that were stored, so the caller can revoke them upstream.
+   */
+  async forget(): Promise<UserTokens | undefined> {
+    const stored = await this.ctx.storage.get<UserTokens>("tokens");
+    await this.ctx.storage.delete("tokens");
+    return stored;
+  }
+
+  private async refresh(tokens: UserTokens): Promise<UserTokens> {
+    const updated = await refreshTokenIfNeeded(tokens, createIdentityProvider(this.env));
+    if (updated !== tokens) await this.ctx.storage.put("tokens", updated);
+    return updated;
+  }
+}
+
+/**
+ * The tokens Durable Object for a user.
+ * @param env - Worker environment with the TOKEN_REFRESHER binding.
+ * @param sub - The user's `Props.sub`.
+ */
+export function tokenRefresher(env: Env, sub: string) {
+  return env.TOKEN_REFRESHER.get(env.TOKEN_REFRESHER.idFromName(sub));
+}
+
+/**
+ * Overlays the user's newest tokens on a grant's props, keeping the grant's own scopes.
+ */
+export function withUserTokens<T extends Partial<Props>>(props: T, tokens: UserTokens): T {
+  return { ...props, ...tokens, scopes: props.scopes };
+}
+
+// --- Helper Functions ---
+
+function withoutScopes(props: UserTokens & { scopes?: string[] }): UserTokens {
+  const { scopes: _scopes, ...tokens } = props;
+  return tokens;
+}
@@ -0,0 +1,108 @@
+import type { AuthRequest } from "@cloudflare/workers-oauth-provider";
+import { matchesHash, sha256Hex } from "./utils";
+import { readCookie } from "./workers-oauth-utils";
+
+/**
+ * Server-side state for the upstream authorization redirect.
+ *
+ * The `state` sent upstream is an opaque random nonce. What the sign-in is
+ * for (an MCP client's `AuthRequest`, or an account page to return to) and the
+ * PKCE code verifier are kept in OAUTH_KV under that
+ * nonce for a few minutes and deleted the first time `/callback` reads them,
+ * so state cannot be forged and is used once.
+ *
+ * The browser that starts the sign-in also gets a short-lived `__Host-` cookie
+ * holding the SHA-256 of the state, and `/callback` only accepts state that
+ * matches it. Otherwise someone could start a sign-in for their own client,
+ * send the identity provider's URL to a victim, and have the victim's already
+ * signed-in session complete it: a grant for the victim sent to the attacker's
+ * redirect URI, or the victim signed in to the attacker's account session.
+ *
+ * Single use is best effort: KV has no atomic get-and-delete, and a delete
+ * takes time to reach other locations, so two callbacks racing with the same
+ * state can both read the entry. That only lets a replay get as far as the
+ * code exchange, where the upstream provider redeems each authorization code
+ * once and checks it against the PKCE verifier.
+ */
+
+const STATE_PREFIX = "upstream_state:";
+
+// How long the user has to finish signing in upstream
+const STATE_TTL_SECONDS = 10 * 60;
+
+// Binds the state to the browser that started the sign-in; host-only, sent on the top-level redirect back
+const STATE_COOKIE = "__Host-mcp-upstream-state";
+
+/**
+ * Why the user is signing in: to authorize an MCP client, or to reach an account page.
+ */
+export type UpstreamTarget =
+  | {
+      /** The MCP client's original authorization request */
+      oauthReqInfo: AuthRequest;
+      returnTo?: undefined;
+    }
+  | {
+      oauthReqInfo?: undefined;
+      /** Path of the account page to return to */
+      returnTo: string;
+    };
+
+/**
+ * What `/callback` needs to finish the flow.
+ */
+export type UpstreamState = UpstreamTarget & {
+  /** PKCE verifier matching the challenge sent upstream */
+  codeVerifier: string;
+};
+
+/**
+ * Starts an upstream authorization: stores its target and a fresh PKCE verifier.
+ * @param kv - The OAUTH_KV namespace.
+ * @param target - The MCP client's authorization request, or the account page to return to.
+ * @returns The nonce to send as `state`, the S256 `code_challenge`, and the
+ *   Set-Cookie header that ties the state to this browser, to add to the redirect.
+ */
+export async function createUpstreamState(
+  kv: KVNamespace,
+  target: UpstreamTarget,
+): Promise<{ state: string; codeChallenge: string; headers: Record<string, string> }> {
+  const state = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const codeVerifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const codeChallenge = base64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier))));
+
+  const entry: UpstreamState = { ...target, codeVerifier };
+  await kv.put(`${STATE_PREFIX}${state}`, JSON.stringify(entry), { expirationTtl: STATE_TTL_SECONDS });
+  const cookie = `${STATE_COOKIE}=${await sha256Hex(state)}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${STATE_TTL_SECONDS}`;
+  return { state, codeChallenge, headers: { "Set-Cookie": cookie } };
+}
+
+/**
+ * Looks up and deletes the entry for the `state` nonce the upstream provider sent back.
+ * Concurrent calls with the same nonce may all get the entry; see the note above.
+ * @param kv - The OAUTH_KV namespace.
+ * @param request - The request to `/callback`, with `state` in its query and the state cookie.
+ * @returns The stored entry, or null for unknown, expired or already-used state, or
+ *   state this browser did not start (the entry is then left for its own browser).
+ */
+export async function consumeUpstreamState(kv: KVNamespace, request: Request): Promise<UpstreamState | null> {
+  const state = new URL(request.url).searchParams.get("state");
+  if (!state) return null;
+  const expectedHash = readCookie(request, STATE_COOKIE);
+  if (!expectedHash || !(await matchesHash(state, expectedHash))) return null;
+
+  const key = `${STATE_PREFIX}${state}`;
+  const entry = await kv.get<UpstreamState>(key, "json");
+  if (!entry) return null;
+  await kv.delete(key);
+  return entry;
+}
+
+// --- Helper Functions ---
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
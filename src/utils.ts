@@ -1,83 +1,13 @@
-/**
- * Constructs an authorization URL for an upstream service.
- *
- * @param {Object} options
- * @param {string} options.upstream_url - The base URL of the upstream service.
- * @param {string} options.client_id - The client ID of the application.
- * @param {string} options.redirect_uri - The redirect URI of the application.
- * @param {string} [options.state] - The state parameter.
- *
- * @returns {string} The authorization URL.
- */
-export function getUpstreamAuthorizeUrl({
-  upstream_url,
-  client_id,
-  scope,
-  redirect_uri,
-  state,
-}: {
-  upstream_url: string;
-  client_id: string;
-  scope: string;
-  redirect_uri: string;
-  state?: string;
-}) {
-  const upstream = new URL(upstream_url);
-  upstream.searchParams.set("client_id", client_id);
-  upstream.searchParams.set("redirect_uri", redirect_uri);
-  upstream.searchParams.set("scope", scope);
-  if (state) upstream.searchParams.set("state", state);
-  upstream.searchParams.set("response_type", "code");
-  return upstream.href;
-}
+import { env } from "cloudflare:workers";
+import { IdentityProviderError, type UpstreamTokens, type UpstreamUser } from "./identity-provider";
+import { decodeJwtPayload } from "./jwt";
+import type { ApprovalCookieOptions } from "./workers-oauth-utils";
 
-/**
- * Fetches an authorization token from an upstream service.
- *
- * @param {Object} options
- * @param {string} options.client_id - The client ID of the application.
- * @param {string} options.client_secret - The client secret of the application.
- * @param {string} options.code - The authorization code.
- * @param {string} options.redirect_uri - The redirect URI of the application.
- * @param {string} options.upstream_url - The token endpoint URL of the upstream service.
- *
- * @returns {Promise<[string, null] | [null, Response]>} A promise that resolves to an array containing the access token or an error response.
- */
-export async function fetchUpstreamAuthToken({
-  client_id,
-  client_secret,
-  code,
-  redirect_uri,
-  upstream_url,
-}: {
-  code: string | undefined;
-  upstream_url: string;
-  client_secret: string;
-  redirect_uri: string;
-  client_id: string;
-}): Promise<[string, null] | [null, Response]> {
-  if (!code) {
-    return [null, new Response("Missing code", { status: 400 })];
-  }
+// Access token lifetime assumed when the provider gives neither `expires_in` nor a JWT `exp`
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 60 * 60;
 
-  const resp = await fetch(upstream_url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({ client_id, client_secret, code, redirect_uri }).toString(),
-  });
-  if (!resp.ok) {
-    console.log(await resp.text());
-    return [null, new Response("Failed to fetch access token", { status: 500 })];
-  }
-  const body = await resp.formData();
-  const accessToken = body.get("access_token") as string;
-  if (!accessToken) {
-    return [null, new Response("Missing access token", { status: 400 })];
-  }
-  return [accessToken, null];
-}
+// How long before expiry tokens are refreshed, unless TOKEN_REFRESH_SKEW_SECONDS says otherwise
+const DEFAULT_REFRESH_SKEW_SECONDS = 5 * 60;
 
 // Context from the auth process, encrypted & stored in the auth token
 // and provided to the DurableMCP as this.props
@@ -91,185 +21,111 @@ export type Props = {
   refreshToken: string;
   tokenExpiresAt: number; // Unix timestamp when access token expires
   tokenIssuedAt: number;  // Unix timestamp when tokens were issued/refreshed
+  scopes: string[];       // Scopes granted to the MCP client, e.g. "todos:read"
 };
 
 /**
- * Builds the Cognito authorization URL for OAuth flow.
+ * Works out when an upstream access token expires. This is the single source of
+ * truth for `Props.tokenExpiresAt`: the token response's `expires_in`, else the
+ * `exp` claim of a JWT access (or ID) token, else an hour from `now`.
+ * @param tokens - Tokens from the provider's token response.
+ * @param now - Unix timestamp (seconds) the tokens were received.
  */
-export function getCognitoAuthorizeUrl({
-  cognito_domain,
-  client_id,
-  redirect_uri,
-  state,
-}: {
-  cognito_domain: string;
-  client_id: string;
-  redirect_uri: string;
-  state: string;
-}): string {
-  const url = new URL(`https://${cognito_domain}/oauth2/authorize`);
-  url.searchParams.set('response_type', 'code');
-  url.searchParams.set('client_id', client_id);
-  url.searchParams.set('redirect_uri', redirect_uri);
-  url.searchParams.set('scope', 'openid email profile');
-  url.searchParams.set('state', state);
-  
-  return url.toString();
+export function computeTokenExpiry(tokens: UpstreamTokens, now: number = Math.floor(Date.now() / 1000)): number {
+  if (tokens.expiresIn !== undefined && Number.isFinite(tokens.expiresIn)) return now + tokens.expiresIn;
+
+  for (const jwt of [tokens.accessToken, tokens.idToken]) {
+    const exp = jwt ? decodeJwtPayload(jwt)?.exp : undefined;
+    if (typeof exp === "number") return exp;
+  }
+  return now + DEFAULT_TOKEN_LIFETIME_SECONDS;
 }
 
 /**
- * Fetches an authorization token from Cognito.
+ * Checks if a token expires within the refresh skew (TOKEN_REFRESH_SKEW_SECONDS, default 5 minutes).
+ * @param tokenExpiresAt - Unix timestamp (seconds) from `Props.tokenExpiresAt`.
  */
-export async function fetchCognitoAuthToken({
-  client_id,
-  client_secret,
-  code,
-  redirect_uri,
-  cognito_domain,
-}: {
-  code: string | undefined;
-  cognito_domain: string;
-  client_secret: string;
-  redirect_uri: string;
-  client_id: string;
-}): Promise<[any, null] | [null, Response]> {
-  if (!code) {
-    return [null, new Response("Missing code", { status: 400 })];
-  }
+export function isTokenNearExpiry(tokenExpiresAt: number): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  return tokenExpiresAt <= now + refreshSkewSeconds();
+}
 
-  const tokenUrl = `https://${cognito_domain}/oauth2/token`;
-  
-  const resp = await fetch(tokenUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      client_id,
-      client_secret,
-      code,
-      redirect_uri,
-    }).toString(),
-  });
-  
-  if (!resp.ok) {
-    console.log(await resp.text());
-    return [null, new Response("Failed to fetch access token", { status: 500 })];
+/**
+ * Creates updated Props with new token information.
+ * @param tokens - Tokens from the identity provider's refresh response.
+ * @param user - The user those tokens belong to, as reported by the provider; without it the profile is kept.
+ * @throws IdentityProviderError if the provider reports a different user than `currentProps.sub`.
+ */
+export function updatePropsWithTokens<T extends Omit<Props, "scopes">>(currentProps: T, tokens: UpstreamTokens, user?: UpstreamUser): T {
+  const now = Math.floor(Date.now() / 1000);
+  if (user && user.sub !== currentProps.sub) {
+    throw new IdentityProviderError("Refreshed tokens belong to a different user", "subject_mismatch");
   }
-  
-  const tokens = await resp.json() as {
-    access_token?: string;
-    id_token?: string;
-    refresh_token?: string;
-    token_type?: string;
-    expires_in?: number;
+
+  return {
+    ...currentProps,
+    accessToken: tokens.accessToken,
+    idToken: tokens.idToken || currentProps.idToken,
+    refreshToken: tokens.refreshToken || currentProps.refreshToken, // Keep existing if not provided
+    tokenIssuedAt: now,
+    tokenExpiresAt: computeTokenExpiry(tokens, now),
+    // Update user info in case it changed
+    email: user?.email || currentProps.email,
+    name: user?.name || currentProps.name,
   };
-  
-  if (!tokens.access_token || !tokens.id_token) {
-    return [null, new Response("Missing tokens in response", { status: 400 })];
-  }
-  
-  return [tokens, null];
 }
 
 /**
- * Parses a JWT token and returns the payload.
+ * Hex-encoded SHA-256 of a string: how API keys, registration access tokens and the
+ * OAuth provider's client secrets and token ids are stored.
+ * @param value - The plaintext.
  */
-export function parseJWT(token: string): any {
-  try {
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      throw new Error('Invalid JWT format');
-    }
-    const payload = JSON.parse(atob(parts[1]));
-    return payload;
-  } catch (error) {
-    console.error('Error parsing JWT:', error);
-    throw new Error('Failed to parse JWT token');
-  }
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
 }
 
 /**
- * Refreshes Cognito tokens using the refresh token.
+ * Checks a presented secret against a stored `sha256Hex` in constant time.
+ * @param presented - The plaintext from the request.
+ * @param expectedHash - The stored hex SHA-256.
  */
-export async function refreshCognitoTokens({
-  client_id,
-  client_secret,
-  refresh_token,
-  cognito_domain,
-}: {
-  refresh_token: string;
-  cognito_domain: string;
-  client_secret: string;
-  client_id: string;
-}): Promise<[any, null] | [null, Response]> {
-  const tokenUrl = `https://${cognito_domain}/oauth2/token`;
-  
-  const resp = await fetch(tokenUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      client_id,
-      client_secret,
-      refresh_token,
-    }).toString(),
-  });
-  
-  if (!resp.ok) {
-    const errorText = await resp.text();
-    console.error('Failed to refresh tokens:', errorText);
-    return [null, new Response("Failed to refresh tokens", { status: 500 })];
-  }
-  
-  const tokens = await resp.json() as {
-    access_token?: string;
-    id_token?: string;
-    refresh_token?: string;
-    token_type?: string;
-    expires_in?: number;
-  };
-  
-  if (!tokens.access_token || !tokens.id_token) {
-    return [null, new Response("Missing tokens in refresh response", { status: 400 })];
-  }
-  
-  return [tokens, null];
+export async function matchesHash(presented: string, expectedHash: string): Promise<boolean> {
+  const enc = new TextEncoder();
+  const a = enc.encode(await sha256Hex(presented));
+  const b = enc.encode(expectedHash);
+  return a.byteLength === b.byteLength && crypto.subtle.timingSafeEqual(a, b);
 }
 
 /**
- * Checks if a token is about to expire (within 5 minutes).
+ * Secrets for signing and verifying cookies, newest first: COOKIE_ENCRYPTION_KEY, then any
+ * retired keys in PREVIOUS_COOKIE_ENCRYPTION_KEYS (comma-separated) that are still accepted.
+ * @param env - Worker environment.
  */
-export function isTokenNearExpiry(tokenIssuedAt: number, expiryMinutes: number = 60): boolean {
-  const now = Math.floor(Date.now() / 1000);
-  const tokenExpiresAt = tokenIssuedAt + (expiryMinutes * 60);
-  const fiveMinutesFromNow = now + (5 * 60);
-  
-  return tokenExpiresAt <= fiveMinutesFromNow;
+export function cookieSecrets(env: Env): string[] {
+  const previous = (env.PREVIOUS_COOKIE_ENCRYPTION_KEYS ?? "").split(",").map((key) => key.trim());
+  return [env.COOKIE_ENCRYPTION_KEY, ...previous].filter(Boolean);
 }
 
 /**
- * Creates updated Props with new token information.
+ * Options for the approved-clients cookie: the cookie secrets, how long an approval is
+ * remembered (APPROVAL_MAX_AGE_SECONDS), and the cookie's name, domain and path
+ * (APPROVAL_COOKIE_NAME, APPROVAL_COOKIE_DOMAIN, APPROVAL_COOKIE_PATH). Unset values keep the defaults.
+ * @param env - Worker environment.
  */
-export function updatePropsWithTokens(currentProps: Props, tokens: any): Props {
-  const now = Math.floor(Date.now() / 1000);
-  const idTokenPayload = parseJWT(tokens.id_token);
-  
+export function approvalCookieOptions(env: Env): ApprovalCookieOptions {
   return {
-    ...currentProps,
-    accessToken: tokens.access_token,
-    idToken: tokens.id_token,
-    refreshToken: tokens.refresh_token || currentProps.refreshToken, // Keep existing if not provided
-    tokenIssuedAt: now,
-    tokenExpiresAt: now + (60 * 60), // 60 minutes from now
-    // Update user info from new ID token in case it changed
-    sub: idTokenPayload.sub || currentProps.sub,
-    email: idTokenPayload.email || currentProps.email,
-    name: (idTokenPayload.given_name && idTokenPayload.family_name) 
-      ? `${idTokenPayload.given_name} ${idTokenPayload.family_name}` 
-      : idTokenPayload.email || currentProps.name,
+    cookieSecret: cookieSecrets(env),
+    cookieMaxAge: Number(env.APPROVAL_MAX_AGE_SECONDS) || undefined,
+    cookieName: env.APPROVAL_COOKIE_NAME || undefined,
+    cookieDomain: env.APPROVAL_COOKIE_DOMAIN || undefined,
+    cookiePath: env.APPROVAL_COOKIE_PATH || undefined,
   };
 }
+
+function refreshSkewSeconds(): number {
+  const configured = Number(env.TOKEN_REFRESH_SKEW_SECONDS);
+  return env.TOKEN_REFRESH_SKEW_SECONDS && Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_REFRESH_SKEW_SECONDS;
+}
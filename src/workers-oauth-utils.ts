@@ -1,28 +1,27 @@
 // workers-oauth-utils.ts
 
 import type { ClientInfo, AuthRequest } from "@cloudflare/workers-oauth-provider"; // Adjust path if necessary
+import { messagesFor, negotiateLocale, type AuthorizationErrorCode, type Locale } from "./i18n";
+import { log } from "./logger";
+import { DEFAULT_THEME, DIALOG_STYLES, themeStyles, type Theme } from "./theme";
 
-const COOKIE_NAME = "mcp-approved-clients";
-const ONE_YEAR_IN_SECONDS = 31536000;
+// Defaults for the approval cookie options
+const DEFAULT_COOKIE_NAME = "mcp-approved-clients";
+const DEFAULT_COOKIE_PATH = "/";
+const DEFAULT_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60; // 30 days
 
-// --- Helper Functions ---
+// Browsers drop cookies over 4096 bytes, name and attributes included. Longer
+// values are ignored on read, and the oldest approvals are dropped to fit on write.
+const MAX_COOKIE_VALUE_LENGTH = 3500;
 
-/**
- * Encodes arbitrary data to a URL-safe base64 string.
- * @param data - The data to encode (will be stringified).
- * @returns A URL-safe base64 encoded string.
- */
-function encodeState(data: any): string {
-  try {
-    const jsonString = JSON.stringify(data);
-    // Use btoa for simplicity, assuming Worker environment supports it well enough
-    // For complex binary data, a Buffer/Uint8Array approach might be better
-    return btoa(jsonString);
-  } catch (e) {
-    console.error("Error encoding state:", e);
-    throw new Error("Could not encode state");
-  }
-}
+// Length of the cookie's HMAC-SHA256 signature in hex
+const SIGNATURE_HEX_LENGTH = 64;
+
+// Double-submit CSRF token for the approval form, scoped to the form's path
+const CSRF_COOKIE_NAME = "mcp-approval-csrf";
+const CSRF_TTL_SECONDS = 600;
+
+// --- Helper Functions ---
 
 /**
  * Decodes a URL-safe base64 string back to its original data.
@@ -34,7 +33,7 @@ function decodeState<T = any>(encoded: string): T {
     const jsonString = atob(encoded);
     return JSON.parse(jsonString);
   } catch (e) {
-    console.error("Error decoding state:", e);
+    log.error("Error decoding state", { error: e });
     throw new Error("Could not decode state");
   }
 }
@@ -88,85 +87,300 @@ async function verifySignature(key: CryptoKey, signatureHex: string, data: strin
     return await crypto.subtle.verify("HMAC", key, signatureBytes.buffer, enc.encode(data));
   } catch (e) {
     // Handle errors during hex parsing or verification
-    console.error("Error verifying signature:", e);
+    log.error("Error verifying signature", { error: e });
     return false;
   }
 }
 
 /**
- * Parses the signed cookie and verifies its integrity.
+ * Normalizes the configured secret(s), newest first.
+ * @param secret - One secret, or a list with the signing secret first.
+ * @returns The non-empty secrets.
+ */
+function secretList(secret: string | string[] | undefined): string[] {
+  const secrets = (Array.isArray(secret) ? secret : [secret]).filter((s): s is string => !!s);
+  if (secrets.length === 0) {
+    throw new Error("COOKIE_SECRET is not defined. A secret key is required for signing cookies.");
+  }
+  return secrets;
+}
+
+/**
+ * Verifies an HMAC-SHA256 signature against each secret in turn, so values signed
+ * with a previous secret stay valid while it is still configured.
+ * @param secrets - The secrets to try, newest first.
+ * @param signatureHex - The signature to verify (hex string).
+ * @param data - The original data that was signed.
+ * @returns A promise resolving to true if any secret produced the signature.
+ */
+async function verifyWithSecrets(secrets: string[], signatureHex: string, data: string): Promise<boolean> {
+  for (const secret of secrets) {
+    if (await verifySignature(await importKey(secret), signatureHex, data)) return true;
+  }
+  return false;
+}
+
+/**
+ * Builds the attributes of the approval cookie from its options.
+ * @param options - The approval cookie options.
+ * @param maxAge - Max-Age in seconds; 0 deletes the cookie.
+ */
+function cookieAttributes(options: Partial<ApprovalCookieOptions>, maxAge: number): string {
+  const domain = options.cookieDomain ? `; Domain=${options.cookieDomain}` : "";
+  return `HttpOnly; Secure; Path=${options.cookiePath ?? DEFAULT_COOKIE_PATH}${domain}; SameSite=Lax; Max-Age=${maxAge}`;
+}
+
+/**
+ * Content-Security-Policy for the approval dialog and the other pages users see:
+ * nothing loads but the page's own stylesheet and the theme's logo, and forms may only be sent to this origin.
+ * Chrome also applies `form-action` to the redirects that follow a submission,
+ * so the redirect targets are allowed too, and nothing else.
+ * @param styleNonce - Nonce on the page's <style> element.
+ * @param logo - The theme's logo URL, if any.
+ * @param redirectTargets - Other URLs the form's response may redirect to.
+ */
+export function dialogContentSecurityPolicy(styleNonce: string, logo: string | undefined, redirectTargets: string[]): string {
+  const imgSource = logo ? cspSource(logo) : null;
+  const formActions = new Set(["'self'", ...redirectTargets.map(cspSource).filter((s): s is string => s !== null)]);
+  return [
+    "default-src 'none'",
+    `style-src 'nonce-${styleNonce}'`,
+    `img-src ${imgSource ?? "'none'"}`,
+    `form-action ${[...formActions].join(" ")}`,
+    "frame-ancestors 'none'",
+    "base-uri 'none'",
+  ].join("; ");
+}
+
+/**
+ * The CSP source expression matching a URL: its origin for http(s), otherwise its scheme
+ * (e.g. `data:` or a native app's private-use scheme).
+ * @returns The source, or null if the URL does not parse.
+ */
+function cspSource(url: string): string | null {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? origin : protocol;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads one cookie's value from a Cookie header.
  * @param cookieHeader - The value of the Cookie header from the request.
- * @param secret - The secret key used for signing.
- * @returns A promise resolving to the list of approved client IDs if the cookie is valid, otherwise null.
+ * @param name - The cookie name.
+ * @returns The cookie's value, or null if it is not set.
  */
-async function getApprovedClientsFromCookie(cookieHeader: string | null, secret: string): Promise<string[] | null> {
+function getCookie(cookieHeader: string | null, name: string): string | null {
   if (!cookieHeader) return null;
+  const target = cookieHeader
+    .split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(`${name}=`));
+  return target ? target.substring(name.length + 1) : null;
+}
 
-  const cookies = cookieHeader.split(";").map((c) => c.trim());
-  const targetCookie = cookies.find((c) => c.startsWith(`${COOKIE_NAME}=`));
+/**
+ * Compares two strings without leaking where they differ through timing.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  const enc = new TextEncoder();
+  const left = enc.encode(a);
+  const right = enc.encode(b);
+  return left.byteLength === right.byteLength && crypto.subtle.timingSafeEqual(left, right);
+}
 
-  if (!targetCookie) return null;
+/**
+ * Parses the signed cookie and verifies its integrity.
+ * @param cookieHeader - The value of the Cookie header from the request.
+ * @param options - The approval cookie options (name and secrets).
+ * @returns A promise resolving to the approval entries if the cookie is valid, otherwise null.
+ */
+async function getApprovalsFromCookie(cookieHeader: string | null, options: ApprovalCookieOptions): Promise<ApprovalEntry[] | null> {
+  const cookieValue = getCookie(cookieHeader, options.cookieName ?? DEFAULT_COOKIE_NAME);
+  if (!cookieValue) return null;
+  if (cookieValue.length > MAX_COOKIE_VALUE_LENGTH) {
+    log.warn("Oversized approval cookie ignored", { length: cookieValue.length });
+    return null;
+  }
 
-  const cookieValue = targetCookie.substring(COOKIE_NAME.length + 1);
   const parts = cookieValue.split(".");
 
   if (parts.length !== 2) {
-    console.warn("Invalid cookie format received.");
+    log.warn("Invalid cookie format received");
     return null; // Invalid format
   }
 
   const [signatureHex, base64Payload] = parts;
-  const payload = atob(base64Payload); // Assuming payload is base64 encoded JSON string
+  let payload: string;
+  try {
+    payload = atob(base64Payload);
+  } catch {
+    log.warn("Invalid cookie format received");
+    return null; // Not base64
+  }
 
-  const key = await importKey(secret);
-  const isValid = await verifySignature(key, signatureHex, payload);
+  const isValid = await verifyWithSecrets(secretList(options.cookieSecret), signatureHex, payload);
 
   if (!isValid) {
-    console.warn("Cookie signature verification failed.");
+    log.warn("Cookie signature verification failed");
     return null; // Signature invalid
   }
 
   try {
-    const approvedClients = JSON.parse(payload);
-    if (!Array.isArray(approvedClients)) {
-      console.warn("Cookie payload is not an array.");
+    const approvals = JSON.parse(payload);
+    if (!Array.isArray(approvals)) {
+      log.warn("Cookie payload is not an array");
       return null; // Payload isn't an array
     }
-    // Ensure all elements are strings
-    if (!approvedClients.every((item) => typeof item === "string")) {
-      console.warn("Cookie payload contains non-string elements.");
+    // Ensure all elements are approval entries; cookies from before entries existed hold bare client IDs
+    if (!approvals.every(isApprovalEntry)) {
+      log.warn("Cookie payload contains invalid approval entries");
       return null;
     }
-    return approvedClients as string[];
+    return approvals;
   } catch (e) {
-    console.error("Error parsing cookie payload:", e);
+    log.error("Error parsing cookie payload", { error: e });
     return null; // JSON parsing failed
   }
 }
 
+function isApprovalEntry(item: unknown): item is ApprovalEntry {
+  const entry = item as ApprovalEntry;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.clientId === "string" &&
+    typeof entry.redirectUri === "string" &&
+    typeof entry.issuedAt === "number" &&
+    Array.isArray(entry.scopes) &&
+    entry.scopes.every((scope) => typeof scope === "string")
+  );
+}
+
+/**
+ * Whether an approval is still within its max age.
+ */
+function isCurrent(entry: ApprovalEntry, maxAgeSeconds: number): boolean {
+  return entry.issuedAt + maxAgeSeconds > Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Signs the approval entries into a Set-Cookie header, or deletes the cookie when none are left.
+ * Always signs with the newest secret, so rewriting a cookie also moves it off a retired one.
+ * @param approvals - The entries to keep.
+ * @param options - The approval cookie options.
+ * @returns Headers to merge into the response.
+ */
+async function approvalsCookieHeader(approvals: ApprovalEntry[], options: ApprovalCookieOptions): Promise<Record<string, string>> {
+  // Oldest first, so those are the ones dropped when the cookie would be too large.
+  // The sort is stable and entries are appended as they are approved, so ties keep that order.
+  const kept = [...approvals].sort((a, b) => a.issuedAt - b.issuedAt);
+  let payload = JSON.stringify(kept);
+  while (kept.length > 0 && SIGNATURE_HEX_LENGTH + 1 + btoa(payload).length > MAX_COOKIE_VALUE_LENGTH) {
+    kept.shift();
+    payload = JSON.stringify(kept);
+  }
+  if (kept.length === 0) return clearApprovedClientsCookie(options);
+
+  const key = await importKey(secretList(options.cookieSecret)[0]);
+  const signature = await signData(key, payload);
+  const cookieValue = `${signature}.${btoa(payload)}`; // signature.base64(payload)
+
+  // The cookie lives as long as its newest entry
+  const newest = kept[kept.length - 1].issuedAt;
+  const maxAge = Math.max(0, newest + maxAgeOf(options) - Math.floor(Date.now() / 1000));
+  return { "Set-Cookie": `${options.cookieName ?? DEFAULT_COOKIE_NAME}=${cookieValue}; ${cookieAttributes(options, maxAge)}` };
+}
+
+/**
+ * How long an approval lasts under the given options.
+ */
+function maxAgeOf(options: Partial<ApprovalCookieOptions>): number {
+  return options.cookieMaxAge ?? DEFAULT_COOKIE_MAX_AGE_SECONDS;
+}
+
 // --- Exported Functions ---
 
 /**
- * Checks if a given client ID has already been approved by the user,
- * based on a signed cookie.
+ * Where and how approvals are remembered. The same options must be passed to
+ * every function that reads or writes the approval cookie.
+ */
+export interface ApprovalCookieOptions {
+  /**
+   * Name of the cookie to use for storing approvals
+   * @default "mcp-approved-clients"
+   */
+  cookieName?: string;
+  /**
+   * Secret used to sign cookies for verification. With a list, the first
+   * (newest) secret signs and every secret is accepted when verifying, so a
+   * new secret can be put first while cookies signed with the old one stay valid.
+   */
+  cookieSecret: string | string[];
+  /**
+   * Cookie domain
+   * @default current domain
+   */
+  cookieDomain?: string;
+  /**
+   * Cookie path
+   * @default "/"
+   */
+  cookiePath?: string;
+  /**
+   * Cookie max age in seconds; also how long each approval in it lasts
+   * @default 30 days
+   */
+  cookieMaxAge?: number;
+}
+
+/**
+ * One remembered approval: which client, for which redirect URI and scopes, and when.
+ */
+export interface ApprovalEntry {
+  clientId: string;
+  /** Scopes the user approved */
+  scopes: string[];
+  redirectUri: string;
+  /** Unix seconds */
+  issuedAt: number;
+}
+
+/**
+ * Checks if the user has already approved this client, for this redirect URI
+ * and at least these scopes, within the approval max age, based on a signed cookie.
+ * A request for scopes beyond the approved ones, or for another redirect URI, needs fresh consent.
  *
  * @param request - The incoming Request object to read cookies from.
- * @param clientId - The OAuth client ID to check approval for.
- * @param cookieSecret - The secret key used to sign/verify the approval cookie.
- * @returns A promise resolving to true if the client ID is in the list of approved clients in a valid cookie, false otherwise.
+ * @param approval - The client ID, redirect URI and scopes being requested.
+ * @param options - The approval cookie options.
+ * @returns A promise resolving to true if a current approval in a valid cookie covers the request, false otherwise.
  */
-export async function clientIdAlreadyApproved(request: Request, clientId: string, cookieSecret: string): Promise<boolean> {
-  if (!clientId) return false;
+export async function clientIdAlreadyApproved(
+  request: Request,
+  approval: Omit<ApprovalEntry, "issuedAt">,
+  options: ApprovalCookieOptions,
+): Promise<boolean> {
+  if (!approval.clientId) return false;
   const cookieHeader = request.headers.get("Cookie");
-  const approvedClients = await getApprovedClientsFromCookie(cookieHeader, cookieSecret);
-
-  return approvedClients?.includes(clientId) ?? false;
+  const approvals = (await getApprovalsFromCookie(cookieHeader, options)) ?? [];
+
+  return approvals.some(
+    (entry) =>
+      entry.clientId === approval.clientId &&
+      entry.redirectUri === approval.redirectUri &&
+      isCurrent(entry, maxAgeOf(options)) &&
+      approval.scopes.every((scope) => entry.scopes.includes(scope)),
+  );
 }
 
 /**
- * Configuration for the approval dialog
+ * Configuration for the approval dialog. `cookieDomain` is the approval cookie's, and is
+ * used for the form's CSRF cookie; the approval cookie itself is written by `parseRedirectApproval`.
  */
-export interface ApprovalDialogOptions {
+export interface ApprovalDialogOptions extends Pick<ApprovalCookieOptions, "cookieDomain"> {
   /**
    * Client information to display in the approval dialog
    */
@@ -176,40 +390,33 @@ export interface ApprovalDialogOptions {
    */
   server: {
     name: string;
-    logo?: string;
     description?: string;
   };
   /**
-   * Arbitrary state data to pass through the approval flow
-   * Will be encoded in the form and returned when approval is complete
+   * Logo, colors and fonts
+   * @default DEFAULT_THEME
    */
-  state: Record<string, any>;
+  theme?: Theme;
   /**
-   * Name of the cookie to use for storing approvals
-   * @default "mcp_approved_clients"
+   * Language of the dialog
+   * @default negotiated from the request's Accept-Language header
    */
-  cookieName?: string;
+  locale?: Locale;
   /**
-   * Secret used to sign cookies for verification
-   * Can be a string or Uint8Array
-   * @default Built-in Uint8Array key
+   * Scopes the client is requesting, shown as checkboxes. Required scopes cannot be unticked.
    */
-  cookieSecret?: string | Uint8Array;
+  scopes?: { name: string; description: string; required?: boolean }[];
   /**
-   * Cookie domain
-   * @default current domain
+   * URLs the form's response may redirect the browser to, e.g. the identity provider's
+   * authorization endpoint for an approval and the client's redirect URI for a denial.
+   * Their origins are the only ones besides this server's in the CSP `form-action`.
    */
-  cookieDomain?: string;
+  redirectTargets?: string[];
   /**
-   * Cookie path
-   * @default "/"
-   */
-  cookiePath?: string;
-  /**
-   * Cookie max age in seconds
-   * @default 30 days
+   * Arbitrary state data to pass through the approval flow
+   * Will be encoded in the form and returned when approval is complete
    */
-  cookieMaxAge?: number;
+  state: Record<string, any>;
 }
 
 /**
@@ -222,18 +429,27 @@ export interface ApprovalDialogOptions {
  * @returns A Response containing the HTML approval dialog
  */
 export function renderApprovalDialog(request: Request, options: ApprovalDialogOptions): Response {
-  const { client, server, state } = options;
+  const { client, server, state, scopes = [], theme = DEFAULT_THEME, redirectTargets = [] } = options;
+  const formPath = new URL(request.url).pathname;
+  const locale = options.locale ?? negotiateLocale(request.headers.get("Accept-Language"));
+  const t = messagesFor(locale);
 
   // Encode state for form submission
   const encodedState = btoa(JSON.stringify(state));
 
+  // Echoed back by the form and compared with the cookie, so other sites cannot submit it
+  const csrfToken = crypto.randomUUID();
+
+  // Lets the page's own <style> through the Content-Security-Policy
+  const styleNonce = crypto.randomUUID();
+
   // Sanitize any untrusted content
   const serverName = sanitizeHtml(server.name);
-  const clientName = client?.clientName ? sanitizeHtml(client.clientName) : "Unknown MCP Client";
+  const clientName = client?.clientName ? sanitizeHtml(client.clientName) : t.unknownClient;
   const serverDescription = server.description ? sanitizeHtml(server.description) : "";
 
   // Safe URLs
-  const logoUrl = server.logo ? sanitizeHtml(server.logo) : "";
+  const logoUrl = theme.logo ? sanitizeHtml(theme.logo) : "";
   const clientUri = client?.clientUri ? sanitizeHtml(client.clientUri) : "";
   const policyUri = client?.policyUri ? sanitizeHtml(client.policyUri) : "";
   const tosUri = client?.tosUri ? sanitizeHtml(client.tosUri) : "";
@@ -244,216 +460,60 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
   // Get redirect URIs
   const redirectUris = client?.redirectUris && client.redirectUris.length > 0 ? client.redirectUris.map((uri) => sanitizeHtml(uri)) : [];
 
+  // Requested scopes; required ones are submitted through a hidden input since disabled checkboxes are not
+  const scopeItems = scopes
+    .map((scope) => {
+      const name = sanitizeHtml(scope.name);
+      return `
+                <label class="scope">
+                  <input type="checkbox" name="scope" value="${name}" checked${scope.required ? " disabled" : ""}>
+                  ${scope.required ? `<input type="hidden" name="scope" value="${name}">` : ""}
+                  <span>${sanitizeHtml(scope.description)} <code>${name}</code>${scope.required ? ` ${t.required}` : ""}</span>
+                </label>`;
+    })
+    .join("");
+
   // Generate HTML for the approval dialog
   const htmlContent = `
     <!DOCTYPE html>
-    <html lang="en">
+    <html lang="${locale}">
       <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${clientName} | Authorization Request</title>
-        <style>
-          /* Modern, responsive styling with system fonts */
-          :root {
-            --primary-color: #0070f3;
-            --error-color: #f44336;
-            --border-color: #e5e7eb;
-            --text-color: #333;
-            --background-color: #fff;
-            --card-shadow: 0 8px 36px 8px rgba(0, 0, 0, 0.1);
-          }
-          
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, 
-                         Helvetica, Arial, sans-serif, "Apple Color Emoji", 
-                         "Segoe UI Emoji", "Segoe UI Symbol";
-            line-height: 1.6;
-            color: var(--text-color);
-            background-color: #f9fafb;
-            margin: 0;
-            padding: 0;
-          }
-          
-          .container {
-            max-width: 600px;
-            margin: 2rem auto;
-            padding: 1rem;
-          }
-          
-          .precard {
-            padding: 2rem;
-            text-align: center;
-          }
-          
-          .card {
-            background-color: var(--background-color);
-            border-radius: 8px;
-            box-shadow: var(--card-shadow);
-            padding: 2rem;
-          }
-          
-          .header {
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            margin-bottom: 1.5rem;
-          }
-          
-          .logo {
-            width: 48px;
-            height: 48px;
-            margin-right: 1rem;
-            border-radius: 8px;
-            object-fit: contain;
-          }
-          
-          .title {
-            margin: 0;
-            font-size: 1.3rem;
-            font-weight: 400;
-          }
-          
-          .alert {
-            margin: 0;
-            font-size: 1.5rem;
-            font-weight: 400;
-            margin: 1rem 0;
-            text-align: center;
-          }
-          
-          .description {
-            color: #555;
-          }
-          
-          .client-info {
-            border: 1px solid var(--border-color);
-            border-radius: 6px;
-            padding: 1rem 1rem 0.5rem;
-            margin-bottom: 1.5rem;
-          }
-          
-          .client-name {
-            font-weight: 600;
-            font-size: 1.2rem;
-            margin: 0 0 0.5rem 0;
-          }
-          
-          .client-detail {
-            display: flex;
-            margin-bottom: 0.5rem;
-            align-items: baseline;
-          }
-          
-          .detail-label {
-            font-weight: 500;
-            min-width: 120px;
-          }
-          
-          .detail-value {
-            font-family: SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace;
-            word-break: break-all;
-          }
-          
-          .detail-value a {
-            color: inherit;
-            text-decoration: underline;
-          }
-          
-          .detail-value.small {
-            font-size: 0.8em;
-          }
-          
-          .external-link-icon {
-            font-size: 0.75em;
-            margin-left: 0.25rem;
-            vertical-align: super;
-          }
-          
-          .actions {
-            display: flex;
-            justify-content: flex-end;
-            gap: 1rem;
-            margin-top: 2rem;
-          }
-          
-          .button {
-            padding: 0.75rem 1.5rem;
-            border-radius: 6px;
-            font-weight: 500;
-            cursor: pointer;
-            border: none;
-            font-size: 1rem;
-          }
-          
-          .button-primary {
-            background-color: var(--primary-color);
-            color: white;
-          }
-          
-          .button-secondary {
-            background-color: transparent;
-            border: 1px solid var(--border-color);
-            color: var(--text-color);
-          }
-          
-          /* Responsive adjustments */
-          @media (max-width: 640px) {
-            .container {
-              margin: 1rem auto;
-              padding: 0.5rem;
-            }
-            
-            .card {
-              padding: 1.5rem;
-            }
-            
-            .client-detail {
-              flex-direction: column;
-            }
-            
-            .detail-label {
-              min-width: unset;
-              margin-bottom: 0.25rem;
-            }
-            
-            .actions {
-              flex-direction: column;
-            }
-            
-            .button {
-              width: 100%;
-            }
-          }
+        <title>${t.title(clientName)}</title>
+        <style nonce="${styleNonce}">
+          ${themeStyles(theme)}
+          ${DIALOG_STYLES}
         </style>
       </head>
       <body>
         <div class="container">
           <div class="precard">
             <div class="header">
-              ${logoUrl ? `<img src="${logoUrl}" alt="${serverName} Logo" class="logo">` : ""}
+              ${logoUrl ? `<img src="${logoUrl}" alt="${t.logoAlt(serverName)}" class="logo">` : ""}
             <h1 class="title"><strong>${serverName}</strong></h1>
             </div>
-            
+
             ${serverDescription ? `<p class="description">${serverDescription}</p>` : ""}
           </div>
-            
+
           <div class="card">
-            
-            <h2 class="alert"><strong>${clientName || "A new MCP Client"}</strong> is requesting access</h1>
-            
+
+            <h2 class="alert">${t.requestingAccess(clientName)}</h2>
+
             <div class="client-info">
               <div class="client-detail">
-                <div class="detail-label">Name:</div>
+                <div class="detail-label">${t.labels.name}</div>
                 <div class="detail-value">
                   ${clientName}
                 </div>
               </div>
-              
+
               ${
                 clientUri
                   ? `
                 <div class="client-detail">
-                  <div class="detail-label">Website:</div>
+                  <div class="detail-label">${t.labels.website}</div>
                   <div class="detail-value small">
                     <a href="${clientUri}" target="_blank" rel="noopener noreferrer">
                       ${clientUri}
@@ -463,12 +523,12 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
               `
                   : ""
               }
-              
+
               ${
                 policyUri
                   ? `
                 <div class="client-detail">
-                  <div class="detail-label">Privacy Policy:</div>
+                  <div class="detail-label">${t.labels.privacyPolicy}</div>
                   <div class="detail-value">
                     <a href="${policyUri}" target="_blank" rel="noopener noreferrer">
                       ${policyUri}
@@ -478,12 +538,12 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
               `
                   : ""
               }
-              
+
               ${
                 tosUri
                   ? `
                 <div class="client-detail">
-                  <div class="detail-label">Terms of Service:</div>
+                  <div class="detail-label">${t.labels.termsOfService}</div>
                   <div class="detail-value">
                     <a href="${tosUri}" target="_blank" rel="noopener noreferrer">
                       ${tosUri}
@@ -493,12 +553,12 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
               `
                   : ""
               }
-              
+
               ${
                 redirectUris.length > 0
                   ? `
                 <div class="client-detail">
-                  <div class="detail-label">Redirect URIs:</div>
+                  <div class="detail-label">${t.labels.redirectUris}</div>
                   <div class="detail-value small">
                     ${redirectUris.map((uri) => `<div>${uri}</div>`).join("")}
                   </div>
@@ -506,27 +566,39 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
               `
                   : ""
               }
-              
+
               ${
                 contacts
                   ? `
                 <div class="client-detail">
-                  <div class="detail-label">Contact:</div>
+                  <div class="detail-label">${t.labels.contact}</div>
                   <div class="detail-value">${contacts}</div>
                 </div>
               `
                   : ""
               }
             </div>
-            
-            <p>This MCP Client is requesting to be authorized on ${serverName}. If you approve, you will be redirected to complete authentication.</p>
-            
-            <form method="post" action="${new URL(request.url).pathname}">
+
+            <p>${t.explanation(serverName)}</p>
+
+            <form method="post" action="${formPath}">
               <input type="hidden" name="state" value="${encodedState}">
-              
+              <input type="hidden" name="csrf_token" value="${csrfToken}">
+
+              ${
+                scopeItems
+                  ? `
+              <div class="scopes">
+                <p class="scopes-title">${t.scopesTitle}</p>
+                ${scopeItems}
+              </div>
+              `
+                  : ""
+              }
+
               <div class="actions">
-                <button type="button" class="button button-secondary" onclick="window.history.back()">Cancel</button>
-                <button type="submit" class="button button-primary">Approve</button>
+                <button type="submit" name="action" value="deny" class="button button-secondary" formnovalidate>${t.deny}</button>
+                <button type="submit" name="action" value="approve" class="button button-primary">${t.approve}</button>
               </div>
             </form>
           </div>
@@ -538,6 +610,97 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
   return new Response(htmlContent, {
     headers: {
       "Content-Type": "text/html; charset=utf-8",
+      "Content-Language": locale,
+      "Content-Security-Policy": dialogContentSecurityPolicy(styleNonce, theme.logo, redirectTargets),
+      "Referrer-Policy": "no-referrer",
+      "X-Content-Type-Options": "nosniff",
+      Vary: "Accept-Language",
+      "Set-Cookie": `${CSRF_COOKIE_NAME}=${csrfToken}; ${cookieAttributes({ cookieDomain: options.cookieDomain, cookiePath: formPath }, CSRF_TTL_SECONDS)}`,
+    },
+  });
+}
+
+/**
+ * Configuration for the page shown instead of the approval dialog when an authorization request is refused
+ */
+export interface ErrorPageOptions {
+  /** Why the request was refused */
+  error: AuthorizationErrorCode;
+  /** Server information shown above the message */
+  server: { name: string };
+  /**
+   * HTTP status of the page
+   * @default 400
+   */
+  status?: number;
+  /**
+   * Logo, colors and fonts
+   * @default DEFAULT_THEME
+   */
+  theme?: Theme;
+  /**
+   * Language of the page
+   * @default negotiated from the request's Accept-Language header
+   */
+  locale?: Locale;
+}
+
+/**
+ * Renders an error page for an authorization request that cannot be sent back
+ * to the client, e.g. because the client or its redirect URI is not registered.
+ *
+ * @param request - The HTTP request
+ * @param options - Configuration for the error page
+ * @returns A Response containing the HTML error page
+ */
+export function renderErrorPage(request: Request, options: ErrorPageOptions): Response {
+  const { error, server, status = 400, theme = DEFAULT_THEME } = options;
+  const locale = options.locale ?? negotiateLocale(request.headers.get("Accept-Language"));
+  const t = messagesFor(locale);
+  const styleNonce = crypto.randomUUID();
+  const serverName = sanitizeHtml(server.name);
+  const logoUrl = theme.logo ? sanitizeHtml(theme.logo) : "";
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="${locale}">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t.errorTitle}</title>
+        <style nonce="${styleNonce}">
+          ${themeStyles(theme)}
+          ${DIALOG_STYLES}
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="precard">
+            <div class="header">
+              ${logoUrl ? `<img src="${logoUrl}" alt="${t.logoAlt(serverName)}" class="logo">` : ""}
+              <h1 class="title"><strong>${serverName}</strong></h1>
+            </div>
+          </div>
+          <div class="card">
+            <h2 class="alert">${t.errorTitle}</h2>
+            <p>${t.errors[error]}</p>
+            <p class="description"><code>${error}</code></p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return new Response(htmlContent, {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Language": locale,
+      "Content-Security-Policy": dialogContentSecurityPolicy(styleNonce, theme.logo, []),
+      "Cache-Control": "no-store",
+      "Referrer-Policy": "no-referrer",
+      "X-Content-Type-Options": "nosniff",
+      Vary: "Accept-Language",
     },
   });
 }
@@ -548,66 +711,150 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
 export interface ParsedApprovalResult {
   /** The original state object passed through the form. */
   state: any;
-  /** Headers to set on the redirect response, including the Set-Cookie header. */
+  /** Whether the user approved (true) or denied (false) the request. */
+  approved: boolean;
+  /** Scopes the user left ticked; empty when they denied. */
+  scopes: string[];
+  /** Headers to set on the redirect response, including the Set-Cookie header when approved. */
   headers: Record<string, string>;
 }
 
 /**
- * Parses the form submission from the approval dialog, extracts the state,
- * and generates Set-Cookie headers to mark the client as approved.
+ * Parses the form submission from the approval dialog, checks its CSRF token,
+ * extracts the state and the user's decision, and on approval generates
+ * Set-Cookie headers to mark the client as approved. The approval is recorded
+ * for `state.registeredRedirectUri` if the dialog's state has one, else for
+ * `state.oauthReqInfo.redirectUri`.
  *
  * @param request - The incoming POST Request object containing the form data.
- * @param cookieSecret - The secret key used to sign the approval cookie.
- * @returns A promise resolving to an object containing the parsed state and necessary headers.
- * @throws If the request method is not POST, form data is invalid, or state is missing.
+ * @param options - The approval cookie options.
+ * @returns A promise resolving to an object containing the parsed state, the decision and necessary headers.
+ * @throws If the request method is not POST, the CSRF token does not match, form data is invalid, or state is missing.
  */
-export async function parseRedirectApproval(request: Request, cookieSecret: string): Promise<ParsedApprovalResult> {
+export async function parseRedirectApproval(request: Request, options: ApprovalCookieOptions): Promise<ParsedApprovalResult> {
   if (request.method !== "POST") {
     throw new Error("Invalid request method. Expected POST.");
   }
 
   let state: any;
   let clientId: string | undefined;
+  let redirectUri: string;
+  let approved: boolean;
+  let scopes: string[];
 
   try {
     const formData = await request.formData();
     const encodedState = formData.get("state");
 
+    const csrfToken = formData.get("csrf_token");
+    const expectedCsrfToken = getCookie(request.headers.get("Cookie"), CSRF_COOKIE_NAME);
+    if (typeof csrfToken !== "string" || !expectedCsrfToken || !constantTimeEqual(csrfToken, expectedCsrfToken)) {
+      throw new Error("Missing or invalid CSRF token.");
+    }
+
+    approved = formData.get("action") !== "deny";
+    scopes = approved ? Array.from(new Set(formData.getAll("scope").filter((s): s is string => typeof s === "string"))) : [];
+
     if (typeof encodedState !== "string" || !encodedState) {
       throw new Error("Missing or invalid 'state' in form data.");
     }
 
     state = decodeState<{ oauthReqInfo?: AuthRequest }>(encodedState); // Decode the state
     clientId = state?.oauthReqInfo?.clientId; // Extract clientId from within the state
+    redirectUri = state?.registeredRedirectUri ?? state?.oauthReqInfo?.redirectUri ?? "";
 
     if (!clientId) {
       throw new Error("Could not extract clientId from state object.");
     }
   } catch (e) {
-    console.error("Error processing form submission:", e);
+    log.error("Error processing form submission", { error: e });
     // Rethrow or handle as appropriate, maybe return a specific error response
     throw new Error(`Failed to parse approval form: ${e instanceof Error ? e.message : String(e)}`);
   }
 
-  // Get existing approved clients
+  // A denial is not remembered; the dialog shows again next time
+  if (!approved) return { state, approved, scopes, headers: {} };
+
+  // Get existing approvals, dropping expired ones and any this approval replaces
   const cookieHeader = request.headers.get("Cookie");
-  const existingApprovedClients = (await getApprovedClientsFromCookie(cookieHeader, cookieSecret)) || [];
+  const existingApprovals = ((await getApprovalsFromCookie(cookieHeader, options)) || []).filter(
+    (entry) => isCurrent(entry, maxAgeOf(options)) && !(entry.clientId === clientId && entry.redirectUri === redirectUri),
+  );
 
-  // Add the newly approved client ID (avoid duplicates)
-  const updatedApprovedClients = Array.from(new Set([...existingApprovedClients, clientId]));
+  // Record the newly approved client, redirect URI and scopes
+  const approval: ApprovalEntry = { clientId, scopes, redirectUri, issuedAt: Math.floor(Date.now() / 1000) };
+  const headers = await approvalsCookieHeader([...existingApprovals, approval], options);
 
-  // Sign the updated list
-  const payload = JSON.stringify(updatedApprovedClients);
-  const key = await importKey(cookieSecret);
-  const signature = await signData(key, payload);
-  const newCookieValue = `${signature}.${btoa(payload)}`; // signature.base64(payload)
+  return { state, approved, scopes, headers };
+}
 
-  // Generate Set-Cookie header
-  const headers: Record<string, string> = {
-    "Set-Cookie": `${COOKIE_NAME}=${newCookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${ONE_YEAR_IN_SECONDS}`,
-  };
+/**
+ * Builds the header that deletes the approved-clients cookie, e.g. on logout.
+ * @param options - The approval cookie's name, domain and path, if not the defaults.
+ * @returns Headers to merge into the response.
+ */
+export function clearApprovedClientsCookie(options: Partial<ApprovalCookieOptions> = {}): Record<string, string> {
+  return { "Set-Cookie": `${options.cookieName ?? DEFAULT_COOKIE_NAME}=; ${cookieAttributes(options, 0)}` };
+}
+
+/**
+ * Removes a client from the approved-clients cookie, so the next authorization
+ * for it shows the approval dialog again.
+ * @param request - The incoming Request object to read cookies from.
+ * @param clientId - The OAuth client ID to forget, for every redirect URI.
+ * @param options - The approval cookie options.
+ * @returns Headers to merge into the response, or none if the client was not approved.
+ */
+export async function revokeClientApproval(
+  request: Request,
+  clientId: string,
+  options: ApprovalCookieOptions,
+): Promise<Record<string, string>> {
+  const approvals = (await getApprovalsFromCookie(request.headers.get("Cookie"), options)) || [];
+  if (!approvals.some((entry) => entry.clientId === clientId)) return {};
+
+  const remaining = approvals.filter((entry) => entry.clientId !== clientId && isCurrent(entry, maxAgeOf(options)));
+  return approvalsCookieHeader(remaining, options);
+}
 
-  return { state, headers };
+/**
+ * Signs a JSON value in the same `signature.base64(payload)` form as the approval cookie.
+ * @param data - The value to sign.
+ * @param secret - The secret key used for signing, or a list whose first (newest) entry is used.
+ * @returns The signed value, safe to use as a cookie value.
+ */
+export async function signValue(data: unknown, secret: string | string[]): Promise<string> {
+  const payload = JSON.stringify(data);
+  const signature = await signData(await importKey(secretList(secret)[0]), payload);
+  return `${signature}.${btoa(payload)}`;
+}
+
+/**
+ * Verifies a value produced by `signValue` and returns what was signed.
+ * @param value - The signed value.
+ * @param secret - The secret key used for signing, or a list of secrets any of which is accepted.
+ * @returns The signed data, or null if the value is malformed or the signature does not match.
+ */
+export async function verifySignedValue<T>(value: string, secret: string | string[]): Promise<T | null> {
+  const [signatureHex, base64Payload, ...rest] = value.split(".");
+  if (!signatureHex || !base64Payload || rest.length) return null;
+  try {
+    const payload = atob(base64Payload);
+    if (!(await verifyWithSecrets(secretList(secret), signatureHex, payload))) return null;
+    return JSON.parse(payload) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a cookie from the request.
+ * @param request - The incoming Request object.
+ * @param name - The cookie name.
+ * @returns The cookie's value, or null if it is not set.
+ */
+export function readCookie(request: Request, name: string): string | null {
+  return getCookie(request.headers.get("Cookie"), name);
 }
 
 /**
@@ -615,6 +862,6 @@ export async function parseRedirectApproval(request: Request, cookieSecret: stri
  * @param unsafe - The unsafe string that might contain HTML
  * @returns A safe string with HTML special characters escaped
  */
-function sanitizeHtml(unsafe: string): string {
+export function sanitizeHtml(unsafe: string): string {
   return unsafe.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#039;");
 }
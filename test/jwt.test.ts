@@ -0,0 +1,131 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { decodeJwtPayload, JwtVerificationError, verifyJwt, type JwtClaims, type JwtVerifyOptions } from "../src/jwt";
+
+const ISSUER = "https://issuer.test/pool";
+const CLIENT_ID = "client-123";
+
+let signingKey: CryptoKey;
+let publicJwk: JsonWebKey;
+let jwksCounter = 0;
+
+beforeAll(async () => {
+  const pair = (await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  signingKey = pair.privateKey;
+  publicJwk = (await crypto.subtle.exportKey("jwk", pair.publicKey)) as JsonWebKey;
+});
+
+function base64Url(data: Uint8Array | string): string {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+async function sign(claims: Partial<JwtClaims>, header: Record<string, unknown> = { alg: "RS256", kid: "key-1" }): Promise<string> {
+  const input = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", signingKey, new TextEncoder().encode(input));
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function idTokenClaims(overrides: Partial<JwtClaims> = {}): Partial<JwtClaims> {
+  const now = Math.floor(Date.now() / 1000);
+  return { iss: ISSUER, sub: "user-1", aud: CLIENT_ID, token_use: "id", iat: now, exp: now + 3600, ...overrides };
+}
+
+/**
+ * A stub JWKS endpoint serving `keys`, at a URL of its own so the module's key set cache starts empty.
+ */
+function stubJwks(keys: unknown[]) {
+  const jwksUrl = `https://issuer.test/jwks/${++jwksCounter}`;
+  let requests = 0;
+  const fetch: typeof globalThis.fetch = async () => {
+    requests++;
+    return Response.json({ keys });
+  };
+  const options: JwtVerifyOptions = { jwksUrl, issuer: ISSUER, audience: CLIENT_ID, tokenUse: "id", fetch };
+  return { options, requests: () => requests };
+}
+
+async function reason(promise: Promise<unknown>): Promise<string> {
+  const error = (await promise.catch((e) => e)) as JwtVerificationError;
+  expect(error).toBeInstanceOf(JwtVerificationError);
+  return error.reason;
+}
+
+describe("verifyJwt", () => {
+  it("accepts a token signed by a key in the set and caches the set", async () => {
+    const jwks = stubJwks([{ ...publicJwk, kid: "key-1", use: "sig" }]);
+
+    await expect(verifyJwt(await sign(idTokenClaims()), jwks.options)).resolves.toMatchObject({ sub: "user-1" });
+    await expect(verifyJwt(await sign(idTokenClaims({ sub: "user-2" })), jwks.options)).resolves.toMatchObject({ sub: "user-2" });
+    expect(jwks.requests()).toBe(1);
+  });
+
+  it("skips keys that cannot be imported instead of rejecting the whole set", async () => {
+    const jwks = stubJwks([
+      { kty: "RSA", kid: "broken", e: "AQAB" },
+      { ...publicJwk, kid: "key-1" },
+    ]);
+
+    await expect(verifyJwt(await sign(idTokenClaims()), jwks.options)).resolves.toMatchObject({ sub: "user-1" });
+    expect(await reason(verifyJwt(await sign(idTokenClaims(), { alg: "RS256", kid: "broken" }), jwks.options))).toBe("unknown_kid");
+  });
+
+  it("rejects a tampered payload", async () => {
+    const jwks = stubJwks([{ ...publicJwk, kid: "key-1" }]);
+    const [header, , signature] = (await sign(idTokenClaims())).split(".");
+    const forged = `${header}.${base64Url(JSON.stringify(idTokenClaims({ sub: "admin" })))}.${signature}`;
+
+    expect(await reason(verifyJwt(forged, jwks.options))).toBe("bad_signature");
+  });
+
+  it("reports an undecodable signature as malformed", async () => {
+    const jwks = stubJwks([{ ...publicJwk, kid: "key-1" }]);
+    const [header, payload] = (await sign(idTokenClaims())).split(".");
+
+    expect(await reason(verifyJwt(`${header}.${payload}.%%%`, jwks.options))).toBe("malformed");
+  });
+
+  it.each([
+    ["not.a-jwt", {}, "malformed"],
+    ["alg", { header: { alg: "HS256", kid: "key-1" } }, "unsupported_alg"],
+    ["kid", { header: { alg: "RS256", kid: "other" } }, "unknown_kid"],
+    ["issuer", { claims: { iss: "https://evil.test" } }, "wrong_issuer"],
+    ["expiry", { claims: { exp: Math.floor(Date.now() / 1000) - 3600 } }, "expired"],
+    ["nbf", { claims: { nbf: Math.floor(Date.now() / 1000) + 3600 } }, "not_yet_valid"],
+    ["token_use", { claims: { token_use: "access" as const } }, "wrong_token_use"],
+    ["audience", { claims: { aud: "someone-else" } }, "wrong_audience"],
+  ])(
+    "rejects a token with a bad %s",
+    async (name, { header, claims }: { header?: Record<string, unknown>; claims?: Partial<JwtClaims> }, expected) => {
+      const jwks = stubJwks([{ ...publicJwk, kid: "key-1" }]);
+      const token = name === "not.a-jwt" ? name : await sign(idTokenClaims(claims), header);
+
+      expect(await reason(verifyJwt(token, jwks.options))).toBe(expected);
+    },
+  );
+
+  it("reports an unreachable JWKS endpoint", async () => {
+    const options: JwtVerifyOptions = {
+      jwksUrl: `https://issuer.test/jwks/${++jwksCounter}`,
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+      fetch: async () => new Response("down", { status: 503 }),
+    };
+
+    expect(await reason(verifyJwt(await sign(idTokenClaims()), options))).toBe("jwks_unavailable");
+  });
+});
+
+describe("decodeJwtPayload", () => {
+  it("reads claims without verifying and returns null for anything else", async () => {
+    expect(decodeJwtPayload(await sign(idTokenClaims()))).toMatchObject({ sub: "user-1" });
+    expect(decodeJwtPayload("opaque-token")).toBeNull();
+    expect(decodeJwtPayload("a.%%%.c")).toBeNull();
+  });
+});
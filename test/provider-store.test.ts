@@ -0,0 +1,130 @@
+import OAuthProvider, { type OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { beforeEach, describe, expect, it } from "vitest";
+import { clientSecretMatches, findClient, findTokenGrant, tokenGrantIds } from "../src/provider-store";
+
+const ORIGIN = "https://mcp.test";
+const REDIRECT_URI = "https://app.test/callback";
+
+/**
+ * Enough of a KVNamespace for the OAuth provider: get, put, delete and prefix listing, ignoring expiry.
+ */
+function memoryKv(): KVNamespace {
+  const values = new Map<string, string>();
+  const kv = {
+    get: async (key: string, options?: "json" | { type?: string }) => {
+      const value = values.get(key);
+      if (value === undefined) return null;
+      const type = typeof options === "string" ? options : options?.type;
+      return type === "json" ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => void values.set(key, value),
+    delete: async (key: string) => void values.delete(key),
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: [...values.keys()].filter((name) => name.startsWith(prefix)).map((name) => ({ name })),
+      list_complete: true,
+    }),
+  };
+  return kv as unknown as KVNamespace;
+}
+
+/**
+ * The real OAuth provider over in-memory KV, so the tests pin the storage layout provider-store.ts reads.
+ */
+function oauthServer() {
+  const env = { OAUTH_KV: memoryKv() } as Env & { OAUTH_PROVIDER: OAuthHelpers };
+  const ctx = { waitUntil: () => {}, passThroughOnException: () => {}, props: {} } as unknown as ExecutionContext;
+  const provider = new OAuthProvider({
+    apiRoute: "/mcp",
+    apiHandler: { fetch: async () => new Response("ok") },
+    defaultHandler: { fetch: async () => new Response("ok") },
+    authorizeEndpoint: "/authorize",
+    tokenEndpoint: "/token",
+  } as unknown as ConstructorParameters<typeof OAuthProvider>[0]);
+  const fetch = (path: string, init?: RequestInit) =>
+    provider.fetch(new Request(`${ORIGIN}${path}`, init) as never, env as never, ctx as never) as unknown as Promise<Response>;
+
+  /**
+   * Registers a confidential client and runs the authorization code flow for it.
+   */
+  async function authorize(userId: string) {
+    const client = await env.OAUTH_PROVIDER.createClient({ redirectUris: [REDIRECT_URI], tokenEndpointAuthMethod: "client_secret_basic" });
+    const { redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
+      request: { responseType: "code", clientId: client.clientId, redirectUri: REDIRECT_URI, scope: [], state: "" },
+      userId,
+      metadata: {},
+      scope: [],
+      props: { sub: userId },
+    });
+    const code = new URL(redirectTo).searchParams.get("code")!;
+    const tokens = await token(client, { grant_type: "authorization_code", code, redirect_uri: REDIRECT_URI });
+    return { client, ...tokens };
+  }
+
+  async function token(client: { clientId: string; clientSecret?: string }, params: Record<string, string>) {
+    const res = await fetch("/token", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${btoa(`${client.clientId}:${client.clientSecret}`)}`,
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+    expect(res.status).toBe(200);
+    return (await res.json()) as { access_token: string; refresh_token: string };
+  }
+
+  return { env, fetch, authorize, token };
+}
+
+describe("provider-store", () => {
+  let server: ReturnType<typeof oauthServer>;
+
+  beforeEach(async () => {
+    server = oauthServer();
+    // The provider only installs its helpers once it has handled a request
+    await server.fetch("/");
+  });
+
+  it("finds a registered client and checks its secret", async () => {
+    const client = await server.env.OAUTH_PROVIDER.createClient({
+      redirectUris: [REDIRECT_URI],
+      tokenEndpointAuthMethod: "client_secret_basic",
+    });
+
+    const found = await findClient(server.env.OAUTH_KV, client.clientId);
+    expect(found?.redirectUris).toEqual([REDIRECT_URI]);
+    expect(await clientSecretMatches(found!, client.clientSecret!)).toBe(true);
+    expect(await clientSecretMatches(found!, "wrong")).toBe(false);
+    expect(await findClient(server.env.OAUTH_KV, "unknown")).toBeNull();
+  });
+
+  it("finds the grant behind an access or refresh token", async () => {
+    const { client, access_token, refresh_token } = await server.authorize("user-1");
+    const expected = { userId: "user-1", grantId: tokenGrantIds(access_token)?.grantId, clientId: client.clientId };
+
+    expect(tokenGrantIds(access_token)).toMatchObject({ userId: "user-1" });
+    expect(await findTokenGrant(server.env.OAUTH_KV, access_token)).toEqual(expected);
+    expect(await findTokenGrant(server.env.OAUTH_KV, refresh_token)).toEqual(expected);
+  });
+
+  it("accepts the refresh token a rotation replaced, but not older ones", async () => {
+    const { client, refresh_token: first } = await server.authorize("user-1");
+    const { refresh_token: second } = await server.token(client, { grant_type: "refresh_token", refresh_token: first });
+    const { refresh_token: third } = await server.token(client, { grant_type: "refresh_token", refresh_token: second });
+
+    expect(await findTokenGrant(server.env.OAUTH_KV, third)).not.toBeNull();
+    expect(await findTokenGrant(server.env.OAUTH_KV, second)).not.toBeNull();
+    expect(await findTokenGrant(server.env.OAUTH_KV, first)).toBeNull();
+  });
+
+  it("finds nothing once the grant is revoked, or for tokens it did not issue", async () => {
+    const { access_token, refresh_token } = await server.authorize("user-1");
+    const { userId, grantId } = tokenGrantIds(access_token)!;
+    await server.env.OAUTH_PROVIDER.revokeGrant(grantId, userId);
+
+    expect(await findTokenGrant(server.env.OAUTH_KV, access_token)).toBeNull();
+    expect(await findTokenGrant(server.env.OAUTH_KV, refresh_token)).toBeNull();
+    expect(await findTokenGrant(server.env.OAUTH_KV, `${userId}:${grantId}:forged`)).toBeNull();
+    expect(await findTokenGrant(server.env.OAUTH_KV, "mcp_not-an-oauth-token")).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { isAllowedRedirectScheme, matchRedirectUri, resolveRedirectUri, withRegisteredRedirectUri } from "../src/redirect-uris";
+
+const NATIVE = "http://127.0.0.1/callback";
+const WEB = "https://app.test/callback";
+
+describe("matchRedirectUri", () => {
+  it("matches a registered loopback URI on any port", () => {
+    expect(matchRedirectUri("http://127.0.0.1:53124/callback", [NATIVE])).toBe(NATIVE);
+    expect(matchRedirectUri("http://localhost:8080/cb", ["http://localhost/cb"])).toBe("http://localhost/cb");
+    expect(matchRedirectUri("http://[::1]:9000/cb", ["http://[::1]/cb"])).toBe("http://[::1]/cb");
+  });
+
+  it("still requires the loopback URI's host, path and query to match", () => {
+    expect(matchRedirectUri("http://127.0.0.1:53124/other", [NATIVE])).toBeNull();
+    expect(matchRedirectUri("http://localhost:53124/callback", [NATIVE])).toBeNull();
+    expect(matchRedirectUri("http://127.0.0.1:53124/callback?x=1", [NATIVE])).toBeNull();
+    expect(matchRedirectUri("http://127.0.0.1:53124/callback#frag", [NATIVE])).toBeNull();
+  });
+
+  it("matches other URIs exactly", () => {
+    expect(matchRedirectUri(WEB, [WEB])).toBe(WEB);
+    expect(matchRedirectUri("https://app.test:8443/callback", [WEB])).toBeNull();
+    expect(matchRedirectUri("https://app.test/callback/", [WEB])).toBeNull();
+    expect(matchRedirectUri("http://app.test:80/callback", ["http://app.test/callback"])).toBeNull();
+  });
+});
+
+describe("isAllowedRedirectScheme", () => {
+  const allowed = (uri: string) => isAllowedRedirectScheme(new URL(uri));
+
+  it("allows https, loopback http and reverse-domain private-use schemes", () => {
+    expect(allowed(WEB)).toBe(true);
+    expect(allowed("http://localhost:8080/cb")).toBe(true);
+    expect(allowed("com.example.app:/oauth2redirect")).toBe(true);
+    expect(allowed("com.example-corp.app:/cb")).toBe(true);
+  });
+
+  it("rejects any other scheme", () => {
+    expect(allowed("http://app.test/callback")).toBe(false);
+    expect(allowed("myapp:/callback")).toBe(false);
+    expect(allowed("javascript:alert(1)")).toBe(false);
+    expect(allowed("data:text/html,hi")).toBe(false);
+    expect(allowed("file:///etc/passwd")).toBe(false);
+    expect(allowed("vbscript:msgbox")).toBe(false);
+  });
+});
+
+describe("resolveRedirectUri", () => {
+  it("defaults to the only registered URI when none is requested", () => {
+    expect(resolveRedirectUri(null, [WEB])).toEqual({ requested: WEB, registered: WEB });
+  });
+
+  it("requires a redirect_uri when the client registered several", () => {
+    expect(resolveRedirectUri(null, [WEB, NATIVE])).toBeNull();
+  });
+
+  it("keeps the port the client asked for alongside the registered URI", () => {
+    expect(resolveRedirectUri("http://127.0.0.1:4000/callback", [WEB, NATIVE])).toEqual({
+      requested: "http://127.0.0.1:4000/callback",
+      registered: NATIVE,
+    });
+  });
+});
+
+describe("withRegisteredRedirectUri", () => {
+  const kv = {
+    get: async (key: string) => (key === "client:native" ? { redirectUris: [NATIVE] } : null),
+  } as unknown as KVNamespace;
+
+  function tokenRequest(params: Record<string, string>) {
+    return new Request("https://mcp.test/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(params).toString(),
+    });
+  }
+
+  it("rewrites a loopback redirect_uri to the registered one", async () => {
+    const request = tokenRequest({
+      grant_type: "authorization_code",
+      client_id: "native",
+      code: "c",
+      redirect_uri: "http://127.0.0.1:53124/callback",
+    });
+
+    const body = new URLSearchParams(await (await withRegisteredRedirectUri(request, kv)).text());
+    expect(body.get("redirect_uri")).toBe(NATIVE);
+    expect(body.get("code")).toBe("c");
+  });
+
+  it("leaves other requests alone", async () => {
+    const unknownClient = tokenRequest({
+      grant_type: "authorization_code",
+      client_id: "other",
+      redirect_uri: "http://127.0.0.1:1/callback",
+    });
+    const refresh = tokenRequest({ grant_type: "refresh_token", client_id: "native", refresh_token: "r" });
+
+    expect(await withRegisteredRedirectUri(unknownClient, kv)).toBe(unknownClient);
+    expect(await withRegisteredRedirectUri(refresh, kv)).toBe(refresh);
+  });
+});
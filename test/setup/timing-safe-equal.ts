@@ -0,0 +1,8 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Workers-only extension of Web Crypto that constant-time comparisons rely on, backed by Node's.
+ */
+if (!("timingSafeEqual" in crypto.subtle)) {
+  Object.assign(crypto.subtle, { timingSafeEqual: (a: Uint8Array, b: Uint8Array) => timingSafeEqual(a, b) });
+}
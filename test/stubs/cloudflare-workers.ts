@@ -0,0 +1,19 @@
+/**
+ * Stand-in for the `cloudflare:workers` module outside the Workers runtime.
+ */
+
+export const env = { LOG_LEVEL: "error" } as unknown as Env;
+
+export class DurableObject<E = Env> {
+  constructor(
+    protected ctx: DurableObjectState,
+    protected env: E,
+  ) {}
+}
+
+export class WorkerEntrypoint<E = Env> {
+  constructor(
+    protected ctx: ExecutionContext,
+    protected env: E,
+  ) {}
+}
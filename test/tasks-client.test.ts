@@ -0,0 +1,205 @@
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  TasksAuthError,
+  TasksClient,
+  TasksNotFoundError,
+  TasksRateLimitedError,
+  TasksUpstreamError,
+  TasksValidationError,
+  type TasksClientOptions,
+} from "../src/tasks-client";
+
+/** Queued in place of a response to close the connection without answering */
+const DROP = Symbol("drop connection");
+
+type StubReply = Response | typeof DROP;
+
+/**
+ * A stub tasks backend on a local port: answers each request with the next queued reply and records what it was sent.
+ */
+function stubBackend() {
+  const replies: StubReply[] = [];
+  const requests: { method?: string; url?: string; headers: IncomingHttpHeaders; body: unknown }[] = [];
+  const server = createServer(async (req, res) => {
+    let text = "";
+    for await (const chunk of req) text += chunk;
+    requests.push({ method: req.method, url: req.url, headers: req.headers, body: text ? JSON.parse(text) : undefined });
+
+    const reply = replies.shift() ?? new Response("Unexpected request", { status: 500 });
+    if (reply === DROP) {
+      req.socket.destroy();
+      return;
+    }
+    res.writeHead(reply.status, Object.fromEntries(reply.headers));
+    res.end(await reply.text());
+  });
+
+  return {
+    requests,
+    url: "",
+    reply(...queued: StubReply[]) {
+      replies.push(...queued);
+    },
+    reset() {
+      replies.length = 0;
+      requests.length = 0;
+    },
+    async listen() {
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/tasks`;
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+const backend = stubBackend();
+
+beforeAll(() => backend.listen());
+afterAll(() => backend.close());
+beforeEach(() => backend.reset());
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function client(options: Partial<TasksClientOptions> = {}) {
+  return new TasksClient({ baseUrl: `${backend.url}/`, credentials: { apiKey: "key" }, baseDelayMs: 0, ...options });
+}
+
+/** Lets real I/O run until `done` holds */
+async function until(done: () => boolean) {
+  while (!done()) await new Promise((resolve) => setImmediate(resolve));
+}
+
+const task = { id: 1, title: "Buy milk", completed: false };
+
+describe("TasksClient", () => {
+  describe("schema validation", () => {
+    it("parses a task list in either response shape", async () => {
+      backend.reply(Response.json([task]), Response.json({ items: [task] }));
+      const tasks = client();
+
+      expect(await tasks.list()).toEqual([{ ...task, id: "1" }]);
+      expect(await tasks.list()).toEqual([{ ...task, id: "1" }]);
+      expect(backend.requests[0]).toMatchObject({ method: "GET", url: "/tasks" });
+      expect(backend.requests[0].headers["x-api-key"]).toBe("key");
+    });
+
+    it("sends the upstream access token as a Bearer token", async () => {
+      backend.reply(Response.json(task));
+      await client({ credentials: { accessToken: "upstream" } }).get("1");
+
+      expect(backend.requests[0].headers.authorization).toBe("Bearer upstream");
+    });
+
+    it("rejects invalid input without calling the backend", async () => {
+      const tasks = client();
+
+      await expect(tasks.create({ title: "" })).rejects.toBeInstanceOf(TasksValidationError);
+      await expect(tasks.update("1", {})).rejects.toBeInstanceOf(TasksValidationError);
+      expect(backend.requests).toHaveLength(0);
+    });
+
+    it("treats a response that does not match the schema as an upstream error", async () => {
+      backend.reply(Response.json({ id: 1 }));
+
+      await expect(client().get("1")).rejects.toBeInstanceOf(TasksUpstreamError);
+    });
+  });
+
+  describe("typed errors", () => {
+    it.each([
+      [401, TasksAuthError],
+      [403, TasksAuthError],
+      [404, TasksNotFoundError],
+      [400, TasksValidationError],
+      [429, TasksRateLimitedError],
+      [502, TasksUpstreamError],
+    ])("maps %i to %o", async (status, ErrorClass) => {
+      backend.reply(Response.json({ message: "nope" }, { status }));
+
+      const error = await client({ maxRetries: 0 })
+        .get("1")
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error.status).toBe(status);
+      expect(error.message).toContain("nope");
+    });
+
+    it("reports a backend that cannot be reached as an upstream error", async () => {
+      backend.reply(DROP);
+
+      const error = await client({ maxRetries: 0 })
+        .list()
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(TasksUpstreamError);
+      expect(error.status).toBe(0);
+    });
+  });
+
+  describe("retries", () => {
+    it("retries 5xx and network errors on idempotent requests", async () => {
+      backend.reply(new Response("busy", { status: 503 }), DROP, Response.json(task));
+
+      expect(await client().update("1", { completed: true })).toMatchObject({ id: "1" });
+      expect(backend.requests.map((r) => r.method)).toEqual(["PUT", "PUT", "PUT"]);
+    });
+
+    it("gives up after maxRetries", async () => {
+      backend.reply(...[0, 1, 2].map(() => new Response("down", { status: 500 })));
+
+      await expect(client().list()).rejects.toBeInstanceOf(TasksUpstreamError);
+      expect(backend.requests).toHaveLength(3);
+    });
+
+    it("does not retry a create after a 5xx or network error", async () => {
+      backend.reply(new Response("down", { status: 500 }));
+      await expect(client().create({ title: "Once" })).rejects.toBeInstanceOf(TasksUpstreamError);
+      expect(backend.requests).toHaveLength(1);
+
+      backend.reply(DROP);
+      await expect(client().create({ title: "Once" })).rejects.toBeInstanceOf(TasksUpstreamError);
+      expect(backend.requests).toHaveLength(2);
+    });
+
+    it("retries a create that was rate limited", async () => {
+      backend.reply(new Response("slow down", { status: 429, headers: { "Retry-After": "0" } }), Response.json(task));
+
+      expect(await client().create({ title: "Buy milk" })).toMatchObject({ title: "Buy milk" });
+      expect(backend.requests).toHaveLength(2);
+      expect(backend.requests[1].body).toMatchObject({ title: "Buy milk" });
+    });
+
+    it("fails at once when Retry-After is longer than the cap", async () => {
+      backend.reply(new Response("later", { status: 429, headers: { "Retry-After": "3600" } }));
+
+      const error = await client()
+        .list()
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(TasksRateLimitedError);
+      expect(error.retryAfter).toBe(3600);
+      expect(backend.requests).toHaveLength(1);
+    });
+
+    it("waits out a Retry-After within the cap", async () => {
+      backend.reply(new Response("later", { status: 429, headers: { "Retry-After": "2" } }), Response.json([]));
+      // Only setTimeout: the connection to the stub server still needs real I/O
+      vi.useFakeTimers({ toFake: ["setTimeout"] });
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+      const listed = client({ maxRetryAfterMs: 5000 }).list();
+      await until(() => setTimeoutSpy.mock.calls.some(([, ms]) => ms === 2000));
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(backend.requests).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await listed).toEqual([]);
+      expect(backend.requests).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IdentityProviderError, type IdentityProvider, type UpstreamUser } from "../src/identity-provider";
+import { TokenRefresher, type UserTokens } from "../src/token-refresher";
+
+const provider = {
+  refresh: vi.fn<IdentityProvider["refresh"]>(),
+  userInfo: vi.fn<IdentityProvider["userInfo"]>(),
+};
+
+vi.mock("../src/identity-provider", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/identity-provider")>()),
+  createIdentityProvider: () => provider,
+}));
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function expiringTokens(): UserTokens {
+  return {
+    sub: "user-1",
+    login: "alice",
+    name: "Alice",
+    email: "alice@example.com",
+    accessToken: "old-access",
+    idToken: "old-id",
+    refreshToken: "old-refresh",
+    tokenIssuedAt: now() - 3600,
+    tokenExpiresAt: now() + 10,
+  };
+}
+
+const user: UpstreamUser = { sub: "user-1", login: "alice", name: "Alice Liddell", email: "alice@example.org" };
+
+/**
+ * A TokenRefresher over in-memory storage.
+ */
+function refresher() {
+  const stored = new Map<string, unknown>();
+  const storage = {
+    get: async (key: string) => stored.get(key),
+    put: async (key: string, value: unknown) => void stored.set(key, value),
+    delete: async (key: string) => stored.delete(key),
+  };
+  const object = new TokenRefresher({ storage } as unknown as DurableObjectState, {} as Env);
+  return { object, stored: () => stored.get("tokens") as UserTokens | undefined };
+}
+
+describe("TokenRefresher", () => {
+  beforeEach(() => {
+    provider.refresh.mockReset().mockResolvedValue({ accessToken: "new-access", refreshToken: "new-refresh", expiresIn: 3600 });
+    provider.userInfo.mockReset().mockResolvedValue(user);
+  });
+
+  it("refreshes tokens near expiry and updates the profile", async () => {
+    const { object, stored } = refresher();
+
+    const fresh = await object.fresh(expiringTokens());
+
+    expect(fresh).toMatchObject({
+      accessToken: "new-access",
+      refreshToken: "new-refresh",
+      name: "Alice Liddell",
+      email: "alice@example.org",
+    });
+    expect(fresh.tokenExpiresAt).toBeGreaterThan(now() + 3000);
+    expect(stored()).toEqual(fresh);
+  });
+
+  it("keeps the refreshed tokens when the user lookup fails", async () => {
+    provider.userInfo.mockRejectedValue(new IdentityProviderError("userinfo down", "userinfo_failed"));
+    const { object, stored } = refresher();
+
+    const fresh = await object.fresh(expiringTokens());
+
+    expect(fresh).toMatchObject({ accessToken: "new-access", refreshToken: "new-refresh", name: "Alice", email: "alice@example.com" });
+    expect(stored()).toEqual(fresh);
+  });
+
+  it("rejects refreshed tokens that belong to a different user", async () => {
+    provider.userInfo.mockResolvedValue({ ...user, sub: "user-2" });
+    const { object, stored } = refresher();
+    const current = expiringTokens();
+
+    expect(await object.fresh(current)).toEqual(current);
+    expect(stored()?.accessToken).toBe("old-access");
+  });
+
+  it("keeps the current tokens when the refresh itself fails", async () => {
+    provider.refresh.mockRejectedValue(new IdentityProviderError("invalid_grant", "token_request_failed"));
+    const { object } = refresher();
+    const current = expiringTokens();
+
+    expect(await object.fresh(current)).toEqual(current);
+    expect(provider.userInfo).not.toHaveBeenCalled();
+  });
+
+  it("does not try to refresh tokens that came without a refresh token", async () => {
+    const { object } = refresher();
+    const current = { ...expiringTokens(), refreshToken: "" };
+
+    expect(await object.fresh(current)).toEqual(current);
+    expect(provider.refresh).not.toHaveBeenCalled();
+  });
+
+  it("refreshes once for concurrent callers", async () => {
+    const { object } = refresher();
+
+    const [a, b] = await Promise.all([object.fresh(expiringTokens()), object.fresh(expiringTokens())]);
+
+    expect(a).toEqual(b);
+    expect(provider.refresh).toHaveBeenCalledTimes(1);
+  });
+});
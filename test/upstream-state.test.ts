@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { consumeUpstreamState, createUpstreamState } from "../src/upstream-state";
+
+function memoryKv(): KVNamespace {
+  const values = new Map<string, string>();
+  const kv = {
+    get: async (key: string) => {
+      const value = values.get(key);
+      return value === undefined ? null : JSON.parse(value);
+    },
+    put: async (key: string, value: string) => void values.set(key, value),
+    delete: async (key: string) => void values.delete(key),
+  };
+  return kv as unknown as KVNamespace;
+}
+
+function callback(state: string, cookie?: string) {
+  return new Request(`https://mcp.test/callback?code=abc&state=${state}`, { headers: cookie ? { Cookie: cookie } : {} });
+}
+
+/** The cookie a browser sends back after receiving a Set-Cookie header */
+function cookieFrom(headers: Record<string, string>) {
+  return headers["Set-Cookie"].split(";")[0];
+}
+
+describe("upstream state", () => {
+  it("is consumed once by the browser that started the sign-in", async () => {
+    const kv = memoryKv();
+    const { state, headers } = await createUpstreamState(kv, { returnTo: "/account/connections" });
+
+    expect(headers["Set-Cookie"]).toMatch(/^__Host-mcp-upstream-state=\w+; HttpOnly; Secure; Path=\/;/);
+    expect(await consumeUpstreamState(kv, callback(state, cookieFrom(headers)))).toMatchObject({ returnTo: "/account/connections" });
+    expect(await consumeUpstreamState(kv, callback(state, cookieFrom(headers)))).toBeNull();
+  });
+
+  it("is refused in a browser without the matching cookie, and left for its own browser", async () => {
+    const kv = memoryKv();
+    const mine = await createUpstreamState(kv, { returnTo: "/account/connections" });
+    const theirs = await createUpstreamState(kv, { returnTo: "/account/connections" });
+
+    expect(await consumeUpstreamState(kv, callback(theirs.state))).toBeNull();
+    expect(await consumeUpstreamState(kv, callback(theirs.state, cookieFrom(mine.headers)))).toBeNull();
+    expect(await consumeUpstreamState(kv, callback(theirs.state, cookieFrom(theirs.headers)))).not.toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { clientIdAlreadyApproved, parseRedirectApproval, signValue, type ApprovalEntry } from "../src/workers-oauth-utils";
+
+const options = { cookieSecret: "secret" };
+const REDIRECT_URI = "https://app.test/callback";
+
+function entry(clientId: string, issuedAt = Math.floor(Date.now() / 1000)): ApprovalEntry {
+  return { clientId, scopes: ["todos:read"], redirectUri: REDIRECT_URI, issuedAt };
+}
+
+function request(cookie: string, init: RequestInit = {}) {
+  return new Request("https://mcp.test/authorize", { ...init, headers: { ...init.headers, Cookie: cookie } });
+}
+
+function isApproved(cookie: string, clientId: string) {
+  return clientIdAlreadyApproved(request(cookie), { clientId, scopes: ["todos:read"], redirectUri: REDIRECT_URI }, options);
+}
+
+/** Approves `clientId` through the dialog's form, on top of whatever the cookie already holds */
+async function approve(cookie: string, clientId: string) {
+  const body = new URLSearchParams({
+    state: btoa(JSON.stringify({ oauthReqInfo: { clientId, redirectUri: REDIRECT_URI } })),
+    csrf_token: "csrf",
+    action: "approve",
+    scope: "todos:read",
+  });
+  const { headers } = await parseRedirectApproval(request(`${cookie}; mcp-approval-csrf=csrf`, { method: "POST", body }), options);
+  return headers["Set-Cookie"].split(";")[0];
+}
+
+describe("approval cookie", () => {
+  it("remembers an approval", async () => {
+    const cookie = await approve("", "client-1");
+
+    expect(await isApproved(cookie, "client-1")).toBe(true);
+    expect(await isApproved(cookie, "client-2")).toBe(false);
+  });
+
+  it("treats a cookie that is not base64 as no approvals", async () => {
+    expect(await isApproved("mcp-approved-clients=abc.not*base64", "client-1")).toBe(false);
+  });
+
+  it("ignores an oversized cookie, even if it is signed", async () => {
+    const entries = Array.from({ length: 100 }, (_, i) => entry(`client-${i}`));
+    const cookie = `mcp-approved-clients=${await signValue(entries, options.cookieSecret)}`;
+
+    expect(await isApproved(cookie, "client-1")).toBe(false);
+  });
+
+  it("drops the oldest approvals to keep the cookie small enough for browsers", async () => {
+    let cookie = "";
+    for (let i = 0; i < 60; i++) cookie = await approve(cookie, `client-${i}`);
+
+    expect(cookie.length).toBeLessThan(4096);
+    expect(await isApproved(cookie, "client-59")).toBe(true);
+    expect(await isApproved(cookie, "client-0")).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Worker-only module; tests get a minimal stand-in
+      "cloudflare:workers": fileURLToPath(new URL("./test/stubs/cloudflare-workers.ts", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+    setupFiles: ["test/setup/timing-safe-equal.ts"],
+    server: {
+      deps: {
+        // Imports cloudflare:workers, so it has to go through the alias above
+        inline: ["@cloudflare/workers-oauth-provider"],
+      },
+    },
+  },
+});
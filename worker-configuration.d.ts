@@ -6,12 +6,33 @@ declare namespace Cloudflare {
 		github_tokens: KVNamespace;
 		OAUTH_KV: KVNamespace;
 		COOKIE_ENCRYPTION_KEY: string;
+		PREVIOUS_COOKIE_ENCRYPTION_KEYS: string;
 		COGNITO_USER_POOL_ID: string;
 		COGNITO_CLIENT_ID: string;
 		COGNITO_CLIENT_SECRET: string;
 		COGNITO_DOMAIN: string;
 		AWS_REGION: string;
+		IDENTITY_PROVIDER: string;
+		UPSTREAM_SCOPES: string;
+		GITHUB_CLIENT_ID: string;
+		GITHUB_CLIENT_SECRET: string;
+		OIDC_ISSUER: string;
+		OIDC_CLIENT_ID: string;
+		OIDC_CLIENT_SECRET: string;
+		TASKS_API_URL: string;
+		ADMIN_API_TOKEN: string;
+		LOG_LEVEL: string;
+		LEGACY_TOKEN_ENDPOINTS: string;
+		TOKEN_REFRESH_SKEW_SECONDS: string;
+		APPROVAL_MAX_AGE_SECONDS: string;
+		APPROVAL_COOKIE_NAME: string;
+		APPROVAL_COOKIE_DOMAIN: string;
+		APPROVAL_COOKIE_PATH: string;
+		SERVER_NAME: string;
+		SERVER_LOGO_URL: string;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		TOKEN_REFRESHER: DurableObjectNamespace<import("./src/index").TokenRefresher>;
 		AI: Ai;
 	}
 }